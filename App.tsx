@@ -1,14 +1,20 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { PocketConsole } from './components/PocketConsole';
+import { ACTION_LABELS, INPUT_ACTIONS, keyLabel, loadBindings, subscribeBindings } from './services/input';
 
 const App: React.FC = () => {
+  const [bindings, setBindings] = useState(loadBindings);
+
+  // Keep the help text in sync with the controls menu
+  useEffect(() => subscribeBindings(setBindings), []);
+
   return (
     <div className="min-h-screen w-full bg-zinc-950 flex flex-col items-center justify-center bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-zinc-800 to-zinc-950">
       <div className="absolute top-4 left-4 text-zinc-600 text-xs font-mono hidden md:block">
          <p>CONTROLS:</p>
-         <p>Arrows: Move</p>
-         <p>Z: Mine / Jump</p>
-         <p>X: Place Block / Cycle</p>
+         {INPUT_ACTIONS.map(action => (
+           <p key={action}>{bindings.keyboard[action].map(keyLabel).join(' / ') || '---'}: {ACTION_LABELS[action]}</p>
+         ))}
       </div>
       <PocketConsole />
       <div className="mt-8 text-zinc-500 text-xs font-['Press_Start_2P'] opacity-50 text-center px-4">
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Gamepad2 } from 'lucide-react';
+import {
+  ACTION_LABELS, Bindings, DEFAULT_BINDINGS, INPUT_ACTIONS, InputAction, InputManager,
+  buttonLabel, keyLabel, loadBindings, saveBindings,
+} from '../services/input';
+
+interface ControlsMenuProps {
+  input: InputManager;
+  onClose: () => void;
+}
+
+type Source = 'keyboard' | 'partnerKeyboard' | 'gamepad';
+type Listening = { action: InputAction; source: Source } | null;
+
+const SOURCES: Source[] = ['keyboard', 'partnerKeyboard', 'gamepad'];
+const SOURCE_LABELS: Record<Source, string> = { keyboard: 'KEYS', partnerKeyboard: 'P2 KEYS', gamepad: 'PAD' };
+
+const unbind = <T,>(bindings: Record<InputAction, T[]>, value: T) => {
+  const next = { ...bindings };
+  for (const other of INPUT_ACTIONS) {
+    next[other] = next[other].filter(bound => bound !== value);
+  }
+  return next;
+};
+
+// Binding a key or button to an action takes it away from any other action
+const rebind = <T,>(bindings: Record<InputAction, T[]>, action: InputAction, value: T) => ({
+  ...unbind(bindings, value),
+  [action]: [value],
+});
+
+export const ControlsMenu: React.FC<ControlsMenuProps> = ({ input, onClose }) => {
+  const [bindings, setBindings] = useState<Bindings>(loadBindings);
+  const [listening, setListening] = useState<Listening>(null);
+
+  useEffect(() => () => input.cancelCapture(), [input]);
+
+  const update = (next: Bindings) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  const listen = (action: InputAction, source: Source) => {
+    if (listening?.action === action && listening.source === source) {
+      input.cancelCapture();
+      setListening(null);
+      return;
+    }
+    setListening({ action, source });
+    if (source === 'keyboard') {
+      input.captureKey(code => {
+        setListening(null);
+        update({
+          ...bindings,
+          keyboard: rebind(bindings.keyboard, action, code),
+          partnerKeyboard: unbind(bindings.partnerKeyboard, code),
+        });
+      });
+    } else if (source === 'partnerKeyboard') {
+      // Player two's keys can't be player one's as well
+      input.captureKey(code => {
+        setListening(null);
+        update({
+          ...bindings,
+          keyboard: unbind(bindings.keyboard, code),
+          partnerKeyboard: rebind(bindings.partnerKeyboard, action, code),
+        });
+      });
+    } else {
+      input.captureButton(button => {
+        setListening(null);
+        update({ ...bindings, gamepad: rebind(bindings.gamepad, action, button) });
+      });
+    }
+  };
+
+  const label = (action: InputAction, source: Source) => {
+    if (listening?.action === action && listening.source === source) {
+      return source === 'gamepad' ? 'PRESS BTN' : 'PRESS KEY';
+    }
+    const bound = source === 'gamepad'
+      ? bindings.gamepad[action].map(buttonLabel)
+      : bindings[source][action].map(keyLabel);
+    return bound.join(' / ') || '---';
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border-2 border-indigo-500 p-6 rounded-lg max-w-md w-full shadow-2xl">
+        <div className="flex items-center gap-2 mb-4 text-indigo-400">
+          <Gamepad2 size={20} />
+          <h3 className="font-['Press_Start_2P'] text-sm uppercase">Controls</h3>
+        </div>
+        <p className="text-zinc-400 mb-4 font-['VT323'] text-lg">
+            Click a binding, then press the new key or gamepad button. The left stick always moves.
+            In co-op, player two uses the P2 keys and the last gamepad plugged in.
+        </p>
+        <div className="flex flex-col gap-1 mb-4">
+          <div className="flex items-center gap-2 px-3">
+            <span className="flex-1" />
+            <div className="flex gap-1 font-['Press_Start_2P'] text-[8px] text-zinc-500">
+              {SOURCES.map(source => <span key={source} className="w-16 text-center">{SOURCE_LABELS[source]}</span>)}
+            </div>
+          </div>
+          {INPUT_ACTIONS.map(action => (
+            <div key={action} className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 rounded px-3 py-1">
+              <span className="flex-1 min-w-0 text-white font-['VT323'] text-lg truncate">{ACTION_LABELS[action]}</span>
+              <div className="flex gap-1 font-['Press_Start_2P'] text-[8px]">
+                {SOURCES.map(source => (
+                  <button
+                    key={source}
+                    onClick={() => listen(action, source)}
+                    className={`w-16 px-2 py-2 rounded truncate ${
+                      listening?.action === action && listening.source === source
+                        ? 'bg-indigo-600 text-white animate-pulse'
+                        : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+                    }`}
+                  >
+                    {label(action, source)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2 font-['Press_Start_2P'] text-[10px]">
+          <button
+            onClick={() => { input.cancelCapture(); setListening(null); update(DEFAULT_BINDINGS); }}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            DEFAULTS
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-indigo-600 text-white hover:bg-indigo-500 rounded"
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Library, Pencil, Star, Trash2 } from 'lucide-react';
+import { BiomeConfig, BlockType } from '../types';
+import { LibraryEntry, deleteEntry, listLibrary, renameEntry, setFavorite } from '../services/biomeLibrary';
+
+interface LibraryMenuProps {
+  currentSeed: number;
+  onPlay: (biome: BiomeConfig) => void;
+  onReusePrompt: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const SWATCH_BLOCKS = [
+  BlockType.GRASS, BlockType.DIRT, BlockType.STONE, BlockType.WOOD, BlockType.LEAVES, BlockType.ORE, BlockType.WATER, BlockType.LAVA,
+];
+
+// Sky first, then the terrain palette and any custom blocks
+const Swatch: React.FC<{ biome: BiomeConfig }> = ({ biome }) => {
+  const colors = [
+    biome.skyColor,
+    ...SWATCH_BLOCKS.map(block => biome.blockColors[block]),
+    ...(biome.customBlocks ?? []).map(block => block.color),
+  ];
+  return (
+    <div className="flex h-3 rounded-sm overflow-hidden border border-black">
+      {colors.map((color, i) => <div key={i} className="flex-1" style={{ backgroundColor: color }} />)}
+    </div>
+  );
+};
+
+const physicsSummary = (biome: BiomeConfig) =>
+  `GRAV ${biome.gravity.toFixed(2)}  ROUGH ${biome.terrainRoughness.toFixed(2)}  ` +
+  `TREES ${biome.treeDensity.toFixed(2)}  WATER ${biome.waterLevel.toFixed(2)}`;
+
+export const LibraryMenu: React.FC<LibraryMenuProps> = ({ currentSeed, onPlay, onReusePrompt, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>(listLibrary);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const refresh = () => setEntries(listLibrary());
+
+  const finishRename = () => {
+    if (renaming) renameEntry(renaming.id, renaming.name);
+    setRenaming(null);
+    refresh();
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border-2 border-indigo-500 p-6 rounded-lg max-w-md w-full shadow-2xl">
+        <div className="flex items-center gap-2 mb-4 text-indigo-400">
+          <Library size={20} />
+          <h3 className="font-['Press_Start_2P'] text-sm uppercase">Biome Library</h3>
+        </div>
+        <p className="text-zinc-400 mb-4 font-['VT323'] text-lg">
+            Every generated biome is kept here. Play one to switch instantly, or click its prompt to generate a new take on it.
+        </p>
+        <div className="flex flex-col gap-2 mb-4 max-h-80 overflow-y-auto">
+          {entries.length === 0 && (
+            <p className="text-zinc-500 font-['VT323'] text-lg">Nothing yet - generate a world first.</p>
+          )}
+          {entries.map(entry => (
+            <div
+              key={entry.id}
+              className={`bg-zinc-800 border rounded px-3 py-2 ${
+                entry.biome.seed === currentSeed ? 'border-indigo-500' : 'border-zinc-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0 font-['VT323'] text-lg leading-none">
+                  {renaming?.id === entry.id ? (
+                    <input
+                      autoFocus
+                      type="text"
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                      onBlur={finishRename}
+                      onKeyDown={(e) => e.key === 'Enter' && finishRename()}
+                      className="w-full bg-zinc-900 border border-zinc-700 text-white px-1 rounded focus:outline-none focus:border-indigo-500"
+                    />
+                  ) : (
+                    <p className="text-white truncate">{entry.name}</p>
+                  )}
+                  <button
+                    onClick={() => onReusePrompt(entry.prompt)}
+                    className="block max-w-full text-zinc-500 text-sm truncate hover:text-indigo-400"
+                    title="Generate again from this prompt"
+                  >
+                    "{entry.prompt}" - {new Date(entry.createdAt).toLocaleDateString()}
+                  </button>
+                </div>
+                <div className="flex gap-1 font-['Press_Start_2P'] text-[8px]">
+                  <button
+                    onClick={() => onPlay({ ...entry.biome, name: entry.name })}
+                    className="px-2 py-2 bg-indigo-600 text-white hover:bg-indigo-500 rounded"
+                  >
+                    PLAY
+                  </button>
+                  <button
+                    onClick={() => { setFavorite(entry.id, !entry.favorite); refresh(); }}
+                    className={`px-2 py-2 bg-zinc-700 hover:bg-zinc-600 rounded ${entry.favorite ? 'text-yellow-400' : 'text-zinc-300'}`}
+                    aria-label="Favorite"
+                  >
+                    <Star size={10} fill={entry.favorite ? 'currentColor' : 'none'} />
+                  </button>
+                  <button
+                    onClick={() => setRenaming({ id: entry.id, name: entry.name })}
+                    className="px-2 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+                    aria-label="Rename"
+                  >
+                    <Pencil size={10} />
+                  </button>
+                  <button
+                    onClick={() => { deleteEntry(entry.id); refresh(); }}
+                    className="px-2 py-2 bg-zinc-700 text-zinc-300 hover:bg-red-700 rounded"
+                    aria-label="Delete"
+                  >
+                    <Trash2 size={10} />
+                  </button>
+                </div>
+              </div>
+              <div className="mt-2">
+                <Swatch biome={entry.biome} />
+                <p className="mt-1 text-zinc-500 font-['VT323'] text-sm whitespace-pre truncate">
+                  {physicsSummary(entry.biome)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2 font-['Press_Start_2P'] text-[10px]">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            CLOSE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
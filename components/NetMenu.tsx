@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Globe } from 'lucide-react';
+import { MAX_CHAT_LENGTH, MAX_NAME_LENGTH, NetRole } from '../services/netProtocol';
+import { NetSession, NetSettings, loadNetSettings, saveNetSettings } from '../services/netSession';
+
+interface NetMenuProps {
+  session: NetSession | null;
+  log: string[]; // Recent status and chat lines, oldest first
+  onConnect: (role: NetRole, room: string, settings: NetSettings) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const FIELD_CLASS = "w-full bg-zinc-800 border border-zinc-700 text-white px-3 py-1 rounded font-['VT323'] text-lg focus:outline-none focus:border-indigo-500 mb-3";
+
+// Letters that can't be mistaken for each other when read out
+const ROOM_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const randomRoom = () =>
+  Array.from({ length: 4 }, () => ROOM_LETTERS[Math.floor(Math.random() * ROOM_LETTERS.length)]).join('');
+
+export const NetMenu: React.FC<NetMenuProps> = ({ session, log, onConnect, onLeave, onClose }) => {
+  const [settings, setSettings] = useState<NetSettings>(loadNetSettings);
+  const [room, setRoom] = useState(randomRoom);
+  const [chat, setChat] = useState('');
+
+  const edit = (changes: Partial<NetSettings>) => setSettings({ ...settings, ...changes });
+
+  const connect = (role: NetRole) => {
+    saveNetSettings(settings);
+    onConnect(role, room.trim().toUpperCase(), settings);
+  };
+
+  const handleChat = (e: React.FormEvent) => {
+    e.preventDefault();
+    session?.chat(chat);
+    setChat('');
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border-2 border-indigo-500 p-6 rounded-lg max-w-md w-full shadow-2xl">
+        <div className="flex items-center gap-2 mb-4 text-indigo-400">
+          <Globe size={20} />
+          <h3 className="font-['Press_Start_2P'] text-sm uppercase">Multiplayer</h3>
+        </div>
+
+        {session ? (
+          <p className="text-zinc-400 mb-3 font-['VT323'] text-lg">
+              {session.role === 'host' ? 'Hosting' : 'In'} room <span className="text-white">{session.room}</span>
+              {session.peerNames().length > 0 && <> with {session.peerNames().join(', ')}</>}.
+          </p>
+        ) : (
+          <>
+            <p className="text-zinc-400 mb-3 font-['VT323'] text-lg">
+                Host this world, or join a friend's room by its code. Everyone connects through
+                a relay; start one with <span className="text-white">npm run relay</span>.
+            </p>
+            <label className="block text-zinc-400 font-['VT323'] text-lg">Relay</label>
+            <input
+              type="text"
+              value={settings.url}
+              onChange={(e) => edit({ url: e.target.value })}
+              placeholder="ws://localhost:8787"
+              className={FIELD_CLASS}
+            />
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="block text-zinc-400 font-['VT323'] text-lg">Name</label>
+                <input
+                  type="text"
+                  value={settings.name}
+                  maxLength={MAX_NAME_LENGTH}
+                  onChange={(e) => edit({ name: e.target.value })}
+                  className={FIELD_CLASS}
+                />
+              </div>
+              <div className="w-24">
+                <label className="block text-zinc-400 font-['VT323'] text-lg">Room</label>
+                <input
+                  type="text"
+                  value={room}
+                  maxLength={8}
+                  onChange={(e) => setRoom(e.target.value.toUpperCase())}
+                  className={`${FIELD_CLASS} uppercase`}
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="h-28 overflow-y-auto bg-zinc-800 border border-zinc-700 rounded px-3 py-1 mb-3 font-['VT323'] text-lg leading-tight">
+          {log.length === 0 && <p className="text-zinc-500">Not connected.</p>}
+          {log.map((line, i) => <p key={i} className="text-zinc-300 break-words">{line}</p>)}
+        </div>
+
+        {session && (
+          <form onSubmit={handleChat} className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={chat}
+              maxLength={MAX_CHAT_LENGTH}
+              onChange={(e) => setChat(e.target.value)}
+              placeholder="Say something..."
+              className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 text-white px-3 py-1 rounded font-['VT323'] text-lg focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-indigo-600 text-white hover:bg-indigo-500 rounded font-['Press_Start_2P'] text-[10px]"
+            >
+              SEND
+            </button>
+          </form>
+        )}
+
+        <div className="flex justify-end gap-2 font-['Press_Start_2P'] text-[10px]">
+          {session ? (
+            <button
+              onClick={onLeave}
+              className="mr-auto px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-red-700 rounded"
+            >
+              LEAVE
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => connect('guest')}
+                disabled={!room.trim()}
+                className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded disabled:opacity-50"
+              >
+                JOIN
+              </button>
+              <button
+                onClick={() => connect('host')}
+                disabled={!room.trim()}
+                className="px-4 py-2 bg-indigo-600 text-white hover:bg-indigo-500 rounded disabled:opacity-50"
+              >
+                HOST
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            CLOSE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
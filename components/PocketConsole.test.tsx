@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import React, { useEffect } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { BiomeGenerationError, generateBiome } from '../services/biomeService';
+import { PocketConsole } from './PocketConsole';
+
+// Screen builds a fresh engine each time it mounts, so counting mounts
+// counts engines (and stands in for the canvas jsdom doesn't draw)
+const engines = vi.hoisted(() => ({ created: 0 }));
+
+vi.mock('./Screen', () => ({
+  Screen: () => {
+    useEffect(() => {
+      engines.created++;
+    }, []);
+    return <canvas data-testid="screen" />;
+  },
+}));
+
+vi.mock('../services/biomeService', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/biomeService')>(),
+  generateBiome: vi.fn(),
+}));
+
+const startGenerating = async () => {
+  fireEvent.click(screen.getByLabelText('AI Gen'));
+  fireEvent.change(screen.getByPlaceholderText('Enter theme or share code...'), { target: { value: 'Lava Caves' } });
+  await act(async () => fireEvent.click(screen.getByText('GENERATE')));
+};
+
+describe('PocketConsole', () => {
+  afterEach(() => {
+    cleanup();
+    engines.created = 0;
+  });
+
+  it('keeps the current world when generation fails', async () => {
+    vi.mocked(generateBiome).mockRejectedValue(new BiomeGenerationError('Model is down.'));
+    render(<PocketConsole />);
+    await startGenerating();
+    expect(screen.queryByText('CONSTRUCTING WORLD...')).toBeNull();
+    expect(screen.getByText('Model is down.')).toBeTruthy();
+    expect(engines.created).toBe(1);
+  });
+
+  it('keeps the current world when generation is cancelled', async () => {
+    vi.mocked(generateBiome).mockImplementation((_generator, _prompt, { signal }) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new BiomeGenerationError('Cancelled.')));
+    }));
+    render(<PocketConsole />);
+    await startGenerating();
+    expect(screen.getByText('CONSTRUCTING WORLD...')).toBeTruthy();
+    expect(screen.getByTestId('screen')).toBeTruthy();
+    await act(async () => fireEvent.click(screen.getByText('CANCEL')));
+    expect(screen.queryByText('CONSTRUCTING WORLD...')).toBeNull();
+    expect(engines.created).toBe(1);
+  });
+});
@@ -1,70 +1,228 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Screen } from './Screen';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Screen, ScreenHandle } from './Screen';
+import { SaveMenu } from './SaveMenu';
+import { ShareMenu } from './ShareMenu';
+import { ControlsMenu } from './ControlsMenu';
+import { LibraryMenu } from './LibraryMenu';
+import { ProviderMenu } from './ProviderMenu';
+import { NetMenu } from './NetMenu';
 import { InputState, BiomeConfig, DEFAULT_BIOME } from '../types';
-import { generateBiome } from '../services/geminiService';
-import { Loader2, Sparkles } from 'lucide-react';
+import { sound } from '../services/audio';
+import { addToLibrary } from '../services/biomeLibrary';
+import { BiomeGenerationError, MAX_ATTEMPTS, generateBiome } from '../services/biomeService';
+import { InputManager, createInputState, loadBindings } from '../services/input';
+import { NetRole } from '../services/netProtocol';
+import { NetError, NetSession, NetSettings } from '../services/netSession';
+import { PROVIDER_LABELS, createGenerator, loadProviderSettings } from '../services/providers';
+import { parseSeed } from '../services/random';
+import { SavedGame, createSave, readSave, writeSave } from '../services/saveStore';
+import { ShareBundle, ShareCodeError, bundleToSave, decodeShareCode, isShareCode } from '../services/shareCode';
+import { Loader2, Sparkles, Volume2, VolumeX } from 'lucide-react';
+
+// Multiplayer status and chat lines kept for the menu
+const NET_LOG_LINES = 8;
 
 export const PocketConsole: React.FC = () => {
-  const inputState = useRef<InputState>({
-    left: false, right: false, up: false, down: false, actionA: false, actionB: false
-  });
+  const inputState = useRef<InputState>(createInputState());
+  const partnerState = useRef<InputState>(createInputState()); // Player two, in co-op
+  const [input, setInput] = useState<InputManager | null>(null);
+  const [coop, setCoop] = useState(false);
+
+  const screenRef = useRef<ScreenHandle>(null);
 
   const [currentBiome, setCurrentBiome] = useState<BiomeConfig>(DEFAULT_BIOME);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+  const [showSaveMenu, setShowSaveMenu] = useState(false);
+  const [showShareMenu, setShowShareMenu] = useState(false);
+  const [showControlsMenu, setShowControlsMenu] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const generation = useRef<AbortController | null>(null);
+  const [providerSettings, setProviderSettings] = useState(loadProviderSettings);
+  const [showProviderMenu, setShowProviderMenu] = useState(false);
+  const [showLibraryMenu, setShowLibraryMenu] = useState(false);
   const [promptText, setPromptText] = useState("");
+  const [seedText, setSeedText] = useState("");
   const [showPromptModal, setShowPromptModal] = useState(false);
   const [logMsg, setLogMsg] = useState("Ready.");
+  const [volume, setVolume] = useState(sound.volume);
+  const [muted, setMuted] = useState(sound.muted);
+  const [session, setSession] = useState<NetSession | null>(null);
+  const [netLog, setNetLog] = useState<string[]>([]);
+  const [showNetMenu, setShowNetMenu] = useState(false);
+
+  // Start toggles the menu: opens the save menu, or closes whatever is open
+  const onStart = useRef(() => {});
+  onStart.current = () => {
+    const menuOpen = showSaveMenu || showShareMenu || showControlsMenu || showProviderMenu || showLibraryMenu || showNetMenu;
+    setShowShareMenu(false);
+    setShowNetMenu(false);
+    setShowControlsMenu(false);
+    setShowProviderMenu(false);
+    setShowLibraryMenu(false);
+    setShowSaveMenu(!menuOpen);
+  };
 
-  // Keyboard listeners
+  // Keyboard, gamepad and touch buttons all feed inputState through one manager
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      switch(e.key) {
-        case 'ArrowLeft': inputState.current.left = true; break;
-        case 'ArrowRight': inputState.current.right = true; break;
-        case 'ArrowUp': inputState.current.up = true; break;
-        case 'ArrowDown': inputState.current.down = true; break;
-        case 'z': case 'Z': inputState.current.actionA = true; break; // A
-        case 'x': case 'X': inputState.current.actionB = true; break; // B
-      }
-    };
-    const handleKeyUp = (e: KeyboardEvent) => {
-        switch(e.key) {
-          case 'ArrowLeft': inputState.current.left = false; break;
-          case 'ArrowRight': inputState.current.right = false; break;
-          case 'ArrowUp': inputState.current.up = false; break;
-          case 'ArrowDown': inputState.current.down = false; break;
-          case 'z': case 'Z': inputState.current.actionA = false; break;
-          case 'x': case 'X': inputState.current.actionB = false; break;
-        }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+    const input = new InputManager(inputState.current, loadBindings());
+    setInput(input);
+    const detach = input.attach(window);
+    const unsubscribe = input.onPress(action => {
+      if (action === 'start') onStart.current();
+    });
     return () => {
-        window.removeEventListener('keydown', handleKeyDown);
-        window.removeEventListener('keyup', handleKeyUp);
+      unsubscribe();
+      detach();
     };
   }, []);
 
+  useEffect(() => {
+    input?.setPartner(coop ? partnerState.current : null);
+  }, [input, coop]);
+
+  const applyBundle = (bundle: ShareBundle) => {
+    setShowShareMenu(false);
+    setSavedGame(bundleToSave(bundle));
+    setCurrentBiome(bundle.biome);
+  };
+
+  // Multiplayer news shows in the menu and on the screen's log line
+  const netMessage = (line: string) => {
+    setLogMsg(line);
+    setNetLog(lines => [...lines.slice(1 - NET_LOG_LINES), line]);
+  };
+
+  const startSession = (role: NetRole, room: string, settings: NetSettings) => {
+    sound.click();
+    setNetLog([]);
+    try {
+      setSession(new NetSession(role, room, settings.url, settings.name, {
+        onWorld: applyBundle, // Guests play whatever the host is playing
+        onMessage: netMessage,
+        onClose: reason => {
+          netMessage(reason);
+          setSession(null);
+        },
+      }));
+    } catch (error) {
+      netMessage(error instanceof NetError ? error.message : "Could not connect.");
+    }
+  };
+
+  // Closing the console leaves the room
+  useEffect(() => () => session?.close(), [session]);
+
+  const importShareCode = (code: string) => {
+    try {
+      applyBundle(decodeShareCode(code));
+    } catch (error) {
+      setLogMsg(error instanceof ShareCodeError ? error.message : "Bad share code.");
+    }
+  };
+
+  // Shared worlds can be opened straight from a ?world=<share code> link
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('world');
+    if (code) importShareCode(code);
+  }, []);
+
   const handleAIRequest = async () => {
     if (!promptText.trim()) return;
     setShowPromptModal(false);
+    if (isShareCode(promptText)) {
+      importShareCode(promptText);
+      setPromptText("");
+      return;
+    }
     setIsGenerating(true);
-    setLogMsg("Contacting Gemini...");
-    
-    const newBiome = await generateBiome(promptText);
-    setCurrentBiome(newBiome);
-    setLogMsg(`Generated: ${newBiome.name}`);
-    setIsGenerating(false);
-    setPromptText("");
+    const controller = new AbortController();
+    generation.current = controller;
+
+    try {
+      const generator = createGenerator(providerSettings);
+      setLogMsg(generator.offline ? "Generating..." : `Contacting ${generator.label}...`);
+      const newBiome = await generateBiome(generator, promptText, {
+        signal: controller.signal,
+        onRetry: (attempt, error) => setLogMsg(`Retrying (${attempt + 1}/${MAX_ATTEMPTS}): ${error.message}`),
+      });
+      setSavedGame(null);
+      setCurrentBiome(newBiome);
+      setLogMsg(`Generated: ${newBiome.name}`);
+      try {
+        addToLibrary(promptText, newBiome);
+      } catch (error) {
+        // The new world still plays, it just isn't kept
+        console.error("Library write failed:", error);
+        setLogMsg(`Generated: ${newBiome.name} (not added to the library - storage full?)`);
+      }
+      setPromptText("");
+    } catch (error) {
+      // Keep playing the current world; the log says what went wrong
+      setLogMsg(error instanceof BiomeGenerationError ? error.message : "Generation failed.");
+    } finally {
+      generation.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  // Stored biomes carry their seed, so switching back rebuilds the same world
+  const handlePlayStored = (biome: BiomeConfig) => {
+    setShowLibraryMenu(false);
+    setSavedGame(null);
+    setCurrentBiome(biome);
+    setLogMsg(`Switched to ${biome.name}`);
+  };
+
+  // Rebuild the current biome from a typed seed (same seed => identical world)
+  const handleSeedRequest = () => {
+    const seed = parseSeed(seedText);
+    if (seed === null) return;
+    setShowPromptModal(false);
+    setSavedGame(null);
+    setCurrentBiome({ ...currentBiome, seed });
+  };
+
+  const handleReset = () => {
+    setSavedGame(null);
+    setCurrentBiome(DEFAULT_BIOME);
+  };
+
+  const handleSave = (slot: number, name: string) => {
+    if (!screenRef.current) return;
+    try {
+      writeSave(slot, createSave(name, screenRef.current.snapshot()));
+      setLogMsg(`Saved ${name} to slot ${slot + 1}.`);
+    } catch (error) {
+      console.error("Save failed:", error);
+      setLogMsg("Save failed - storage full?");
+    }
+  };
+
+  const getEditedChunks = useCallback(() => screenRef.current?.snapshot().chunks ?? [], []);
+
+  const handleLoad = (slot: number) => {
+    const save = readSave(slot);
+    if (!save) {
+      setLogMsg(`Slot ${slot + 1} could not be loaded.`);
+      return;
+    }
+    setShowSaveMenu(false);
+    setSavedGame(save);
+    setCurrentBiome(save.biome);
+  };
+
+  const openPromptModal = () => {
+    setSeedText(String(currentBiome.seed));
+    setShowPromptModal(true);
   };
 
   // Helper for touch buttons
   const bindTouch = (key: keyof InputState) => ({
-    onMouseDown: () => { inputState.current[key] = true; },
-    onMouseUp: () => { inputState.current[key] = false; },
-    onMouseLeave: () => { inputState.current[key] = false; },
-    onTouchStart: (e: React.TouchEvent) => { e.preventDefault(); inputState.current[key] = true; },
-    onTouchEnd: (e: React.TouchEvent) => { e.preventDefault(); inputState.current[key] = false; }
+    onMouseDown: () => input?.setTouch(key, true),
+    onMouseUp: () => input?.setTouch(key, false),
+    onMouseLeave: () => input?.setTouch(key, false),
+    onTouchStart: (e: React.TouchEvent) => { e.preventDefault(); input?.setTouch(key, true); },
+    onTouchEnd: (e: React.TouchEvent) => { e.preventDefault(); input?.setTouch(key, false); }
   });
 
   return (
@@ -85,18 +243,34 @@ export const PocketConsole: React.FC = () => {
            
            {/* SCREEN DISPLAY */}
            <div className="w-full aspect-[4/3] bg-[#9bbc0f] border-4 border-black shadow-[inset_0_0_20px_rgba(0,0,0,0.5)] overflow-hidden relative rounded-sm">
-              {isGenerating ? (
-                <div className="w-full h-full flex flex-col items-center justify-center bg-black text-green-400 font-mono p-4 text-center">
+              {/* Stays mounted under the loader, so a failed or cancelled generation keeps the current world */}
+              <Screen
+                ref={screenRef}
+                inputState={inputState}
+                partnerState={partnerState}
+                coop={coop}
+                session={session}
+                biome={currentBiome}
+                savedGame={savedGame}
+                onLog={setLogMsg}
+              />
+              {isGenerating && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center bg-black text-green-400 font-mono p-4 text-center">
                    <Loader2 className="animate-spin mb-4 h-8 w-8" />
                    <p className="text-xs font-['Press_Start_2P']">CONSTRUCTING WORLD...</p>
+                   <button
+                     onClick={() => generation.current?.abort()}
+                     className="mt-4 px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded font-['Press_Start_2P'] text-[10px]"
+                   >
+                     CANCEL
+                   </button>
                 </div>
-              ) : (
-                <Screen inputState={inputState} biome={currentBiome} onLog={setLogMsg} />
               )}
 
               {/* UI Overlay inside screen */}
               <div className="absolute bottom-0 left-0 w-full bg-black/60 text-white text-[10px] font-['VT323'] p-1 px-2 flex justify-between">
                  <span>{logMsg}</span>
+                 <span className="text-zinc-400">SEED {currentBiome.seed}</span>
               </div>
            </div>
         </div>
@@ -125,19 +299,36 @@ export const PocketConsole: React.FC = () => {
                <div className="flex gap-4 transform rotate-[-15deg] mt-8">
                   <div className="flex flex-col items-center">
                      <button 
-                        onClick={() => setShowPromptModal(true)}
+                        onClick={() => { sound.click(); openPromptModal(); }}
+                        aria-label="AI Gen"
                         className="w-12 h-3 bg-zinc-900 rounded-full border-b-2 border-zinc-950 active:border-b-0 active:translate-y-[2px] mb-1 transition-all hover:bg-zinc-800"
                      ></button>
                      <span className="text-[8px] font-bold text-indigo-900 tracking-widest uppercase">AI Gen</span>
                   </div>
                   <div className="flex flex-col items-center">
                      <button 
-                       onClick={() => setCurrentBiome(DEFAULT_BIOME)}
+                       onClick={() => { sound.click(); handleReset(); }}
                        className="w-12 h-3 bg-zinc-900 rounded-full border-b-2 border-zinc-950 active:border-b-0 active:translate-y-[2px] mb-1 transition-all hover:bg-zinc-800"
                      ></button>
                      <span className="text-[8px] font-bold text-indigo-900 tracking-widest uppercase">Reset</span>
                   </div>
                </div>
+               <div className="flex gap-4 transform rotate-[-15deg]">
+                  <div className="flex flex-col items-center">
+                     <button 
+                       {...bindTouch('select')}
+                       className="w-12 h-3 bg-zinc-900 rounded-full border-b-2 border-zinc-950 active:border-b-0 active:translate-y-[2px] mb-1 transition-all hover:bg-zinc-800"
+                     ></button>
+                     <span className="text-[8px] font-bold text-indigo-900 tracking-widest uppercase">Select</span>
+                  </div>
+                  <div className="flex flex-col items-center">
+                     <button 
+                       onClick={() => { sound.click(); setShowSaveMenu(true); }}
+                       className="w-12 h-3 bg-zinc-900 rounded-full border-b-2 border-zinc-950 active:border-b-0 active:translate-y-[2px] mb-1 transition-all hover:bg-zinc-800"
+                     ></button>
+                     <span className="text-[8px] font-bold text-indigo-900 tracking-widest uppercase">Saves</span>
+                  </div>
+               </div>
             </div>
 
             {/* A/B BUTTONS */}
@@ -153,12 +344,34 @@ export const PocketConsole: React.FC = () => {
                          <button {...bindTouch('actionA')} className="w-10 h-10 rounded-full bg-red-700 shadow-[0_3px_0_rgb(120,0,0)] active:shadow-none active:translate-y-[3px] transition-all flex items-center justify-center group">
                              <span className="text-red-900 font-bold text-xs group-active:text-red-950">A</span>
                          </button>
-                         <span className="text-[10px] font-bold text-indigo-900 mt-1">Mine/Jump</span>
+                         <span className="text-[10px] font-bold text-indigo-900 mt-1">Mine</span>
                     </div>
                 </div>
             </div>
         </div>
 
+        {/* Volume */}
+        <div className="absolute bottom-6 left-8 flex items-center gap-2 text-indigo-900">
+            <button
+              onClick={() => { sound.setMuted(!muted); setMuted(!muted); sound.click(); }}
+              className="hover:text-indigo-950"
+              aria-label={muted ? 'Unmute' : 'Mute'}
+            >
+              {muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={volume}
+              onChange={(e) => { sound.setVolume(Number(e.target.value)); setVolume(Number(e.target.value)); }}
+              onPointerUp={() => sound.click()}
+              className="w-20 h-1 accent-indigo-900 cursor-pointer"
+              aria-label="Volume"
+            />
+        </div>
+
         {/* Speaker Grille */}
         <div className="absolute bottom-6 right-8 flex gap-1 transform rotate-[-15deg]">
             <div className="w-1 h-8 bg-indigo-800 rounded-full opacity-50"></div>
@@ -169,6 +382,66 @@ export const PocketConsole: React.FC = () => {
 
       </div>
 
+      {/* SAVE MENU */}
+      {showSaveMenu && (
+        <SaveMenu
+          defaultName={currentBiome.name}
+          onSave={handleSave}
+          onLoad={handleLoad}
+          onShare={() => { setShowSaveMenu(false); setShowShareMenu(true); }}
+          onControls={() => { setShowSaveMenu(false); setShowControlsMenu(true); }}
+          coop={coop}
+          onToggleCoop={() => { setShowSaveMenu(false); setCoop(!coop); }}
+          onOnline={() => { setShowSaveMenu(false); setShowNetMenu(true); }}
+          onClose={() => setShowSaveMenu(false)}
+        />
+      )}
+
+      {/* SHARE MENU */}
+      {showShareMenu && (
+        <ShareMenu
+          biome={currentBiome}
+          getEditedChunks={getEditedChunks}
+          onImport={applyBundle}
+          onClose={() => setShowShareMenu(false)}
+        />
+      )}
+
+      {/* MULTIPLAYER MENU */}
+      {showNetMenu && (
+        <NetMenu
+          session={session}
+          log={netLog}
+          onConnect={startSession}
+          onLeave={() => session?.close()}
+          onClose={() => setShowNetMenu(false)}
+        />
+      )}
+
+      {/* CONTROLS MENU */}
+      {showControlsMenu && input && (
+        <ControlsMenu input={input} onClose={() => setShowControlsMenu(false)} />
+      )}
+
+      {/* LIBRARY MENU */}
+      {showLibraryMenu && (
+        <LibraryMenu
+          currentSeed={currentBiome.seed}
+          onPlay={handlePlayStored}
+          onReusePrompt={(prompt) => { setPromptText(prompt); setShowLibraryMenu(false); setShowPromptModal(true); }}
+          onClose={() => setShowLibraryMenu(false)}
+        />
+      )}
+
+      {/* PROVIDER MENU */}
+      {showProviderMenu && (
+        <ProviderMenu
+          settings={providerSettings}
+          onChange={setProviderSettings}
+          onClose={() => { setShowProviderMenu(false); setShowPromptModal(true); }}
+        />
+      )}
+
       {/* PROMPT MODAL */}
       {showPromptModal && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
@@ -176,21 +449,36 @@ export const PocketConsole: React.FC = () => {
             <div className="flex items-center gap-2 mb-4 text-indigo-400">
               <Sparkles size={20} />
               <h3 className="font-['Press_Start_2P'] text-sm uppercase">Generate World</h3>
+              <button
+                onClick={() => { setShowPromptModal(false); setShowLibraryMenu(true); }}
+                className="ml-auto px-2 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded font-['Press_Start_2P'] text-[8px]"
+              >
+                LIBRARY...
+              </button>
             </div>
             <p className="text-zinc-400 text-xs mb-4 font-['VT323'] text-lg">
                 Describe a theme (e.g., "Mars Colony", "Candy Kingdom", "Radioactive Wasteland"). 
-                Gemini will configure the physics and colors.
+                {providerSettings.kind === 'offline'
+                  ? "The world is built offline from keywords in your theme."
+                  : `${PROVIDER_LABELS[providerSettings.kind]} will configure the physics and colors.`}{' '}
+                You can also paste a share code here.
             </p>
             <input
               autoFocus
               type="text"
               value={promptText}
               onChange={(e) => setPromptText(e.target.value)}
-              placeholder="Enter theme..."
+              placeholder="Enter theme or share code..."
               className="w-full bg-zinc-800 border border-zinc-700 text-white px-4 py-2 rounded font-['VT323'] text-xl focus:outline-none focus:border-indigo-500 mb-4"
               onKeyDown={(e) => e.key === 'Enter' && handleAIRequest()}
             />
             <div className="flex justify-end gap-2 font-['Press_Start_2P'] text-[10px]">
+              <button
+                onClick={() => { setShowPromptModal(false); setShowProviderMenu(true); }}
+                className="mr-auto px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+              >
+                AI...
+              </button>
               <button 
                 onClick={() => setShowPromptModal(false)}
                 className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
@@ -205,6 +493,29 @@ export const PocketConsole: React.FC = () => {
                 GENERATE
               </button>
             </div>
+
+            <div className="mt-6 pt-4 border-t border-zinc-700">
+              <p className="text-zinc-400 mb-2 font-['VT323'] text-lg">
+                  World seed - type a number or any word to rebuild this biome's world.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={seedText}
+                  onChange={(e) => setSeedText(e.target.value)}
+                  placeholder="Seed..."
+                  className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 text-white px-4 py-2 rounded font-['VT323'] text-xl focus:outline-none focus:border-indigo-500"
+                  onKeyDown={(e) => e.key === 'Enter' && handleSeedRequest()}
+                />
+                <button
+                  onClick={handleSeedRequest}
+                  disabled={!seedText.trim()}
+                  className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded disabled:opacity-50 font-['Press_Start_2P'] text-[10px]"
+                >
+                  LOAD SEED
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       )}
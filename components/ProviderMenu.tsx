@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Cpu } from 'lucide-react';
+import {
+  DEFAULT_MODELS, PROVIDER_KINDS, PROVIDER_LABELS, ProviderKind, ProviderSettings, saveProviderSettings,
+} from '../services/providers';
+
+interface ProviderMenuProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const FIELD_CLASS = "w-full bg-zinc-800 border border-zinc-700 text-white px-3 py-1 rounded font-['VT323'] text-lg focus:outline-none focus:border-indigo-500 mb-3";
+
+export const ProviderMenu: React.FC<ProviderMenuProps> = ({ settings, onChange, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const edit = (changes: Partial<ProviderSettings>) => setDraft({ ...draft, ...changes });
+
+  // Each provider has its own idea of a model name, so switching resets it
+  const pick = (kind: ProviderKind) => edit({ kind, model: DEFAULT_MODELS[kind] });
+
+  const handleSave = () => {
+    saveProviderSettings(draft);
+    onChange(draft);
+    onClose();
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border-2 border-indigo-500 p-6 rounded-lg max-w-md w-full shadow-2xl">
+        <div className="flex items-center gap-2 mb-4 text-indigo-400">
+          <Cpu size={20} />
+          <h3 className="font-['Press_Start_2P'] text-sm uppercase">World Generator</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-1 mb-4 font-['Press_Start_2P'] text-[8px]">
+          {PROVIDER_KINDS.map(kind => (
+            <button
+              key={kind}
+              onClick={() => pick(kind)}
+              className={`px-2 py-2 rounded uppercase ${
+                draft.kind === kind ? 'bg-indigo-600 text-white' : 'bg-zinc-700 text-zinc-300 hover:bg-zinc-600'
+              }`}
+            >
+              {PROVIDER_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+
+        {(draft.kind === 'gemini' || draft.kind === 'openai') && (
+          <>
+            <label className="block text-zinc-400 font-['VT323'] text-lg">Model</label>
+            <input
+              type="text"
+              value={draft.model}
+              onChange={(e) => edit({ model: e.target.value })}
+              placeholder={DEFAULT_MODELS[draft.kind]}
+              className={FIELD_CLASS}
+            />
+          </>
+        )}
+        {draft.kind === 'openai' && (
+          <>
+            <label className="block text-zinc-400 font-['VT323'] text-lg">Endpoint</label>
+            <input
+              type="text"
+              value={draft.endpoint}
+              onChange={(e) => edit({ endpoint: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className={FIELD_CLASS}
+            />
+          </>
+        )}
+        {(draft.kind === 'gemini' || draft.kind === 'openai') && (
+          <>
+            <label className="block text-zinc-400 font-['VT323'] text-lg">API key</label>
+            <input
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => edit({ apiKey: e.target.value })}
+              placeholder={draft.kind === 'gemini' ? 'Leave empty to use the built-in key' : 'Optional'}
+              className={FIELD_CLASS}
+            />
+            <p className="text-zinc-500 font-['VT323'] text-base mb-3">
+                The key is stored in this browser only.
+            </p>
+          </>
+        )}
+        {draft.kind === 'fixture' && (
+          <>
+            <label className="block text-zinc-400 font-['VT323'] text-lg">
+                Fixtures - JSON mapping each prompt (or "*") to a recorded answer
+            </label>
+            <textarea
+              value={draft.fixtures}
+              onChange={(e) => edit({ fixtures: e.target.value })}
+              rows={6}
+              spellCheck={false}
+              className="w-full bg-zinc-800 border border-zinc-700 text-white px-3 py-1 rounded font-mono text-xs focus:outline-none focus:border-indigo-500 mb-3"
+            />
+          </>
+        )}
+        {draft.kind === 'offline' && (
+          <p className="text-zinc-400 mb-3 font-['VT323'] text-lg">
+              Worlds are built from keywords in the theme, with no network access.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2 font-['Press_Start_2P'] text-[10px]">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            CANCEL
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 bg-indigo-600 text-white hover:bg-indigo-500 rounded"
+          >
+            SAVE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
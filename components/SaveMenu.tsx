@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { SaveSummary, deleteSave, listSaves } from '../services/saveStore';
+
+interface SaveMenuProps {
+  defaultName: string;
+  onSave: (slot: number, name: string) => void;
+  onLoad: (slot: number) => void;
+  onShare: () => void;
+  onControls: () => void;
+  coop: boolean;
+  onToggleCoop: () => void;
+  onOnline: () => void;
+  onClose: () => void;
+}
+
+export const SaveMenu: React.FC<SaveMenuProps> = ({
+  defaultName, onSave, onLoad, onShare, onControls, coop, onToggleCoop, onOnline, onClose,
+}) => {
+  const [slots, setSlots] = useState<(SaveSummary | null)[]>(listSaves);
+  const [saveName, setSaveName] = useState(defaultName);
+
+  const handleSave = (slot: number) => {
+    onSave(slot, saveName.trim() || defaultName);
+    setSlots(listSaves());
+  };
+
+  const handleDelete = (slot: number) => {
+    deleteSave(slot);
+    setSlots(listSaves());
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border-2 border-indigo-500 p-6 rounded-lg max-w-md w-full shadow-2xl">
+        <div className="flex items-center gap-2 mb-4 text-indigo-400">
+          <Save size={20} />
+          <h3 className="font-['Press_Start_2P'] text-sm uppercase">Save / Load</h3>
+        </div>
+        <input
+          type="text"
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          placeholder="Save name..."
+          className="w-full bg-zinc-800 border border-zinc-700 text-white px-4 py-2 rounded font-['VT323'] text-xl focus:outline-none focus:border-indigo-500 mb-4"
+        />
+        <div className="flex flex-col gap-2 mb-4">
+          {slots.map((summary, slot) => (
+            <div key={slot} className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 rounded px-3 py-2">
+              <div className="flex-1 min-w-0 font-['VT323'] text-lg leading-none">
+                {summary ? (
+                  <>
+                    <p className="text-white truncate">{summary.name}</p>
+                    <p className="text-zinc-500 text-sm truncate">
+                      {summary.biomeName} - {new Date(summary.savedAt).toLocaleString()}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-zinc-500">Slot {slot + 1} - Empty</p>
+                )}
+              </div>
+              <div className="flex gap-1 font-['Press_Start_2P'] text-[8px]">
+                <button
+                  onClick={() => handleSave(slot)}
+                  className="px-2 py-2 bg-indigo-600 text-white hover:bg-indigo-500 rounded"
+                >
+                  SAVE
+                </button>
+                <button
+                  onClick={() => onLoad(slot)}
+                  disabled={!summary}
+                  className="px-2 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded disabled:opacity-50"
+                >
+                  LOAD
+                </button>
+                <button
+                  onClick={() => handleDelete(slot)}
+                  disabled={!summary}
+                  className="px-2 py-2 bg-zinc-700 text-zinc-300 hover:bg-red-700 rounded disabled:opacity-50"
+                  aria-label="Delete"
+                >
+                  <Trash2 size={10} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end flex-wrap gap-2 font-['Press_Start_2P'] text-[10px]">
+          <button
+            onClick={onToggleCoop}
+            className="mr-auto px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+            title={coop ? 'Back to one player' : 'A second player joins on their own keys or gamepad'}
+          >
+            {coop ? 'SOLO' : 'CO-OP'}
+          </button>
+          <button
+            onClick={onOnline}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            ONLINE...
+          </button>
+          <button
+            onClick={onControls}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            KEYS...
+          </button>
+          <button
+            onClick={onShare}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            SHARE...
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            CLOSE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
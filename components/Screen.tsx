@@ -1,308 +1,616 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { BiomeConfig, BlockType, InputState, PlayerState } from '../types';
+import React, { useRef, useEffect, useCallback, useImperativeHandle } from 'react';
+import { BiomeConfig, InputState, PlayerState } from '../types';
+import { CHUNK_HEIGHT, CHUNK_WIDTH, MAX_HEALTH, MAX_HUNGER, TILE_SIZE } from '../services/worldGenerator';
+import { GameSnapshot, SavedGame } from '../services/saveStore';
+import { blockColor, getBlock } from '../services/blocks';
+import { daylight } from '../services/lighting';
+import { HOTBAR_SIZE, countOf, hotbarPage } from '../services/inventory';
+import { GameEngine, HURT_COOLDOWN_MS, PLAYER_HEIGHT, Player } from '../services/engine';
+import { Mob } from '../services/entities';
+import { chunkIndexOf } from '../services/chunkStore';
+import { ChunkCanvasCache, ChunkShadeCache, TileAtlas, createTileAtlas } from '../services/tileRenderer';
+import { SpriteSheet, createPlayerSprites, drawPlayer, playerFrame } from '../services/sprites';
+import { sound } from '../services/audio';
+import { NetSession, RemotePlayer } from '../services/netSession';
+
+// Lets the console grab the running game for saving
+export interface ScreenHandle {
+  snapshot: () => GameSnapshot;
+}
 
 interface ScreenProps {
+  ref?: React.Ref<ScreenHandle>;
   inputState: React.MutableRefObject<InputState>;
+  partnerState: React.MutableRefObject<InputState>; // Player two's input in co-op
+  coop: boolean;
+  session: NetSession | null; // Online room this game is shared with, if any
   biome: BiomeConfig;
+  savedGame: SavedGame | null; // Restored instead of generating a fresh world
   onLog: (msg: string) => void;
 }
 
 // Game Constants
-const TILE_SIZE = 16;
-const CHUNK_WIDTH = 64;
-const CHUNK_HEIGHT = 48;
 const RENDER_SCALE = 2;
 
-export const Screen: React.FC<ScreenProps> = ({ inputState, biome, onLog }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const requestRef = useRef<number>();
-  
-  // Game State refs (mutable to avoid re-renders during game loop)
-  const playerRef = useRef<PlayerState>({
-    x: 100,
-    y: 0,
-    vx: 0,
-    vy: 0,
-    facingRight: true,
-    selectedBlock: BlockType.DIRT,
-  });
-  
-  const worldRef = useRef<number[][]>([]);
-  const inventoryRef = useRef<BlockType[]>([
-    BlockType.DIRT, BlockType.STONE, BlockType.WOOD, BlockType.GRASS
-  ]);
-  const lastActionTime = useRef<number>(0);
-
-  // Initialize World
-  const generateWorld = useCallback(() => {
-    const newWorld: number[][] = [];
-    const { terrainRoughness, treeDensity } = biome;
-    
-    for (let y = 0; y < CHUNK_HEIGHT; y++) {
-      newWorld[y] = [];
-      for (let x = 0; x < CHUNK_WIDTH; x++) {
-        newWorld[y][x] = BlockType.AIR;
+// Player one and two: shirt, and the cursor / selected slot outline. Players
+// online all wear the last shirt.
+const SHIRT_COLORS = ['#FF0000', '#2E86FF', '#3CB043'];
+const REMOTE_SPRITES = 2;
+const CURSOR_COLORS = ['#FFFFFF', '#66CCFF'];
+
+// Crack lines drawn over a block being mined, revealed one by one as it breaks
+const CRACKS = [
+  [8, 8, 3, 2], [8, 8, 13, 4], [8, 8, 6, 14], [8, 8, 14, 12],
+  [3, 2, 1, 6], [13, 4, 15, 1], [6, 14, 2, 12], [14, 12, 11, 15],
+];
+
+// Hotbar slots across the top of the screen, in canvas pixels
+const SLOT_SIZE = 18;
+const HOTBAR_Y = 4;
+const hotbarLeft = (region: HudRegion) => Math.floor(region.left + (region.width - HOTBAR_SIZE * SLOT_SIZE) / 2);
+
+// Index of the hotbar slot at a canvas position, or null if there's none there
+const hotbarSlotAt = (region: HudRegion, x: number, y: number) => {
+  const slot = Math.floor((x - hotbarLeft(region)) / SLOT_SIZE);
+  return y >= HOTBAR_Y && y < HOTBAR_Y + SLOT_SIZE && slot >= 0 && slot < HOTBAR_SIZE ? slot : null;
+};
+
+// Pointer position in canvas pixels
+const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+  const canvas = e.currentTarget;
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: (e.clientX - rect.left) * canvas.width / rect.width,
+    y: (e.clientY - rect.top) * canvas.height / rect.height,
+  };
+};
+
+const CRAFTING_ROWS = 8; // Recipes visible at once, the list scrolls with the selection
+
+// 7x6 pixel HUD icons, one point in every half
+const HEART = ['.##.##.', '#######', '#######', '.#####.', '..###..', '...#...'];
+const DRUMSTICK = ['....##.', '...####', '..#####', '.####..', '#.#....', '.#.....'];
+
+// Draws a row of icons for `value` out of `max` points. Icons fill from the
+// left, or from the right when `fromRight` is set, and the last one may be
+// half full.
+const drawStat = (
+  ctx: CanvasRenderingContext2D, icon: string[], color: string,
+  value: number, max: number, x: number, y: number, fromRight: boolean, stats: RenderStats,
+) => {
+  const count = max / 2;
+  for (let i = 0; i < count; i++) {
+      const ix = x + (fromRight ? count - 1 - i : i) * 8;
+      const filled = Math.max(0, Math.min(2, value - i * 2));
+      for (let row = 0; row < icon.length; row++) {
+          for (let col = 0; col < icon[row].length; col++) {
+              if (icon[row][col] !== '#') continue;
+              // A half icon is filled on the side the row fills from
+              const half = fromRight ? col >= 3 : col <= 3;
+              ctx.fillStyle = filled === 2 || (filled === 1 && half) ? color : 'rgba(0,0,0,0.5)';
+              ctx.fillRect(ix + col, y + row, 1, 1);
+              stats.drawCalls++;
+          }
       }
-    }
+  }
+};
+
+// Top-left corner of a camera centred on a world point, in world pixels.
+// Clamped vertically only since the world has no horizontal edges.
+const cameraAt = (x: number, y: number, width: number, height: number) => {
+  const camX = Math.floor(x - width / 2);
+  const camY = Math.floor(y - height / 2);
+  const maxCamY = CHUNK_HEIGHT * TILE_SIZE - height;
+  return { x: camX, y: Math.max(0, Math.min(camY, maxCamY)) };
+};
+
+// A strip of the canvas showing the world through one camera
+interface View {
+  left: number; // Canvas pixels
+  width: number;
+  scale: number; // Canvas pixels per world pixel
+  camera: { x: number; y: number };
+}
 
-    // Simple 1D Noise generation for terrain height
-    let height = Math.floor(CHUNK_HEIGHT / 2);
-    
-    for (let x = 0; x < CHUNK_WIDTH; x++) {
-      // Random walk based on roughness
-      if (Math.random() < terrainRoughness) {
-        height += Math.random() > 0.5 ? 1 : -1;
-      }
-      // Clamp height
-      height = Math.max(10, Math.min(CHUNK_HEIGHT - 5, height));
-
-      // Fill blocks
-      for (let y = height; y < CHUNK_HEIGHT; y++) {
-        if (y === CHUNK_HEIGHT - 1) {
-            newWorld[y][x] = BlockType.BEDROCK;
-        } else if (y === height) {
-            newWorld[y][x] = BlockType.GRASS;
-        } else if (y > height + 5) {
-            newWorld[y][x] = Math.random() > 0.9 ? BlockType.ORE : BlockType.STONE;
-        } else {
-            newWorld[y][x] = BlockType.DIRT;
-        }
-      }
+const ZOOMED_OUT = 1;
+const FIT_MARGIN = TILE_SIZE * 2; // Room kept around players sharing the screen
+
+// One player gets the whole screen. Two share it while they fit, zoomed out
+// if need be; further apart it splits down the middle, each half zoomed out
+// and following one of them.
+const layoutViews = (players: PlayerState[], canvas: HTMLCanvasElement): View[] => {
+  const { width, height } = canvas;
+  const xs = players.map(player => player.x);
+  const ys = players.map(player => player.y);
+  const spanX = Math.max(...xs) - Math.min(...xs) + FIT_MARGIN * 2;
+  const spanY = Math.max(...ys) - Math.min(...ys) + PLAYER_HEIGHT + FIT_MARGIN * 2;
+  for (const scale of [RENDER_SCALE, ZOOMED_OUT]) {
+    if (players.length > 1 && (spanX > width / scale || spanY > height / scale)) continue;
+    const centreX = (Math.max(...xs) + Math.min(...xs)) / 2;
+    const centreY = (Math.max(...ys) + Math.min(...ys)) / 2;
+    return [{ left: 0, width, scale, camera: cameraAt(centreX, centreY, width / scale, height / scale) }];
+  }
+  const half = width / players.length;
+  return players.map((player, i) => ({
+    left: i * half,
+    width: half,
+    scale: ZOOMED_OUT,
+    camera: cameraAt(player.x, player.y, half / ZOOMED_OUT, height / ZOOMED_OUT),
+  }));
+};
+
+// Canvas strip each player's HUD is drawn in: all of it, or a half each in co-op
+interface HudRegion {
+  left: number;
+  width: number;
+}
 
-      // Trees
-      if (x > 5 && x < CHUNK_WIDTH - 5 && newWorld[height][x] === BlockType.GRASS) {
-        if (Math.random() < treeDensity) {
-          // Grow tree
-          const treeHeight = 3 + Math.floor(Math.random() * 3);
-          for (let i = 1; i <= treeHeight; i++) {
-             if (height - i >= 0) newWorld[height - i][x] = BlockType.WOOD;
-          }
-          // Leaves
-          for (let lx = x - 1; lx <= x + 1; lx++) {
-            for (let ly = height - treeHeight - 1; ly <= height - treeHeight; ly++) {
-                if (lx >=0 && lx < CHUNK_WIDTH && ly >= 0) {
-                   if (newWorld[ly][lx] === BlockType.AIR) newWorld[ly][lx] = BlockType.LEAVES;
-                }
-            }
+const hudRegions = (canvas: HTMLCanvasElement, count: number): HudRegion[] =>
+  Array.from({ length: count }, (_, i) => ({ left: i * canvas.width / count, width: canvas.width / count }));
+
+// Per-biome drawing resources, rebuilt along with the engine
+interface RenderCache {
+  atlas: TileAtlas;
+  chunks: ChunkCanvasCache;
+  shades: ChunkShadeCache;
+  sprites: SpriteSheet[]; // One per player, in their shirt color
+}
+
+// Frame timing and draw-call counts for the F3 debug overlay
+interface RenderStats {
+  visible: boolean;
+  fps: number;
+  drawCalls: number; // Counted by the drawing code below during the frame being drawn
+  lastDrawCalls: number; // Total for the previous frame, which is what's shown
+}
+
+// Inventory icon: the block's tile shrunk to fit, or a swatch for things without one
+const drawIcon = (
+  ctx: CanvasRenderingContext2D, atlas: TileAtlas, biome: BiomeConfig, block: number, x: number, y: number, size: number,
+  stats: RenderStats,
+) => {
+  const column = atlas.columns.get(block);
+  if (column === undefined) {
+      ctx.fillStyle = blockColor(block, biome.blockColors);
+      ctx.fillRect(x, y, size, size);
+      stats.drawCalls++;
+  } else {
+      ctx.drawImage(atlas.canvas, column * TILE_SIZE, 0, TILE_SIZE, TILE_SIZE, x, y, size, size);
+      stats.drawCalls++;
+  }
+};
+
+// Body in the mob's color (red while hurt), an eye on the side it faces and
+// a health bar once it has taken damage
+const drawMob = (ctx: CanvasRenderingContext2D, mob: Mob, stats: RenderStats) => {
+  const left = mob.x - mob.width / 2;
+  const top = mob.y - mob.height;
+  ctx.fillStyle = mob.hurtTime > 0 ? '#FF4444' : mob.kind.color;
+  ctx.fillRect(left, top, mob.width, mob.height);
+  stats.drawCalls++;
+  ctx.fillStyle = mob.kind.hostile ? '#FF0000' : '#000000';
+  ctx.fillRect(mob.facingRight ? left + mob.width - 4 : left + 2, top + 2, 2, 2);
+  stats.drawCalls++;
+  if (mob.health < mob.maxHealth) {
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(left, top - 4, mob.width, 2);
+      stats.drawCalls++;
+      ctx.fillStyle = '#FF3B3B';
+      ctx.fillRect(left, top - 4, mob.width * mob.health / mob.maxHealth, 2);
+      stats.drawCalls++;
+  }
+};
+
+// Draws the world as one view's camera sees it: blocks, mobs, every player,
+// fluids and light, each player's mining cracks and cursor, and the names of
+// players online
+const drawWorld = (
+  ctx: CanvasRenderingContext2D, engine: GameEngine, cache: RenderCache, view: View, remotes: RemotePlayer[],
+  stats: RenderStats,
+) => {
+  const { canvas } = ctx;
+  const { world } = engine;
+  const { x: camX, y: camY } = view.camera;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(view.left, 0, view.width, canvas.height);
+  ctx.clip();
+  ctx.translate(view.left, 0);
+  ctx.scale(view.scale, view.scale);
+  ctx.translate(-camX, -camY);
+
+  // Draw World
+  const startCol = Math.floor(camX / TILE_SIZE);
+  const endCol = startCol + Math.ceil(view.width / view.scale / TILE_SIZE) + 1;
+  const startRow = Math.floor(camY / TILE_SIZE);
+  const endRow = startRow + Math.ceil(canvas.height / view.scale / TILE_SIZE) + 1;
+
+  // Only the rows in view are copied out of each baked chunk
+  const top = Math.max(0, startRow) * TILE_SIZE;
+  const height = Math.min(CHUNK_HEIGHT, endRow) * TILE_SIZE - top;
+  const chunkPixels = CHUNK_WIDTH * TILE_SIZE;
+  for (let index = chunkIndexOf(startCol); index <= chunkIndexOf(endCol - 1); index++) {
+      const baked = cache.chunks.get(world.getChunk(index));
+      ctx.drawImage(baked, 0, top, chunkPixels, height, index * chunkPixels, top, chunkPixels, height);
+      stats.drawCalls++;
+  }
+
+  // Draw Mobs
+  for (const mob of engine.mobs) {
+      drawMob(ctx, mob, stats);
+  }
+
+  // Draw Players
+  for (const player of engine.players) {
+      const { pose, frame } = playerFrame(player.state, player.onGround, player.mining !== null, engine.time);
+      drawPlayer(ctx, cache.sprites[player.index], player.state, pose, frame);
+      stats.drawCalls++;
+  }
+  for (const remote of remotes) {
+      const { pose, frame } = playerFrame(remote.state, remote.onGround, remote.mining, engine.time);
+      drawPlayer(ctx, cache.sprites[REMOTE_SPRITES], remote.state, pose, frame);
+      stats.drawCalls++;
+  }
+
+  // Fluids and darkness go over the players, so swimming looks submerged
+  const sun = daylight(engine.timeOfDay());
+  for (let index = chunkIndexOf(startCol); index <= chunkIndexOf(endCol - 1); index++) {
+      const shade = cache.shades.get(world.getChunk(index), sun);
+      ctx.drawImage(shade, 0, top, chunkPixels, height, index * chunkPixels, top, chunkPixels, height);
+      stats.drawCalls++;
+  }
+
+  for (const player of engine.players) {
+      // Crack overlay on the block being mined
+      if (player.mining) {
+          const cursorX = player.mining.x * TILE_SIZE;
+          const cursorY = player.mining.y * TILE_SIZE;
+          const progress = engine.miningProgress(player);
+          const stage = Math.min(CRACKS.length, Math.floor(progress * (CRACKS.length + 1)));
+          ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          for (let i = 0; i < stage; i++) {
+              const [x1, y1, x2, y2] = CRACKS[i];
+              ctx.moveTo(cursorX + x1, cursorY + y1);
+              ctx.lineTo(cursorX + x2, cursorY + y2);
           }
-        }
+          ctx.stroke();
+          stats.drawCalls++;
       }
-    }
-    worldRef.current = newWorld;
-    
-    // Reset player
-    playerRef.current.x = CHUNK_WIDTH * TILE_SIZE * 0.5;
-    playerRef.current.y = 0; // Will fall to ground
-    playerRef.current.vx = 0;
-    playerRef.current.vy = 0;
-  }, [biome]);
-
-  // Re-generate world when biome changes
-  useEffect(() => {
-    generateWorld();
-    onLog(`Entering ${biome.name}...`);
-  }, [biome, generateWorld, onLog]);
 
-  // The Game Loop
-  const update = useCallback((time: number) => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
-
-    const player = playerRef.current;
-    const world = worldRef.current;
-    const inputs = inputState.current;
-
-    // --- Physics ---
-    // Horizontal
-    if (inputs.left) {
-      player.vx = -2;
-      player.facingRight = false;
-    } else if (inputs.right) {
-      player.vx = 2;
-      player.facingRight = true;
+      // Selection cursor on the tile actually targeted (none when out of reach)
+      if (player.target) {
+          ctx.strokeStyle = CURSOR_COLORS[player.index];
+          ctx.lineWidth = 1;
+          ctx.strokeRect(player.target.x * TILE_SIZE, player.target.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+          stats.drawCalls++;
+      }
+  }
+
+  // Name tags stay the same size on screen whatever the zoom
+  ctx.font = `${12 / view.scale}px 'VT323'`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  for (const remote of remotes) {
+      const tagY = remote.state.y - PLAYER_HEIGHT - 2;
+      ctx.fillStyle = 'rgba(0,0,0,0.8)';
+      ctx.fillText(remote.name, remote.state.x + 1 / view.scale, tagY + 1 / view.scale);
+      stats.drawCalls++;
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(remote.name, remote.state.x, tagY);
+      stats.drawCalls++;
+  }
+
+  ctx.restore();
+};
+
+// One player's hotbar, stats, crafting menu and death screen, in their strip of the canvas
+const drawHud = (
+  ctx: CanvasRenderingContext2D, engine: GameEngine, cache: RenderCache, player: Player, region: HudRegion, stats: RenderStats,
+) => {
+  const { canvas } = ctx;
+  const { biome } = engine;
+  const { state, inventory } = player;
+  const right = region.left + region.width;
+
+  // --- HUD: Hotbar ---
+  const slotSize = SLOT_SIZE;
+  const { blocks: hotbar, page, pages } = hotbarPage(inventory, state.selectedBlock);
+  const hotbarX = hotbarLeft(region);
+  const hotbarY = HOTBAR_Y;
+  ctx.font = '8px monospace';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  for (let i = 0; i < HOTBAR_SIZE; i++) {
+      const sx = hotbarX + i * slotSize;
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(sx, hotbarY, slotSize - 2, slotSize - 2);
+      stats.drawCalls++;
+      const block = hotbar[i];
+      if (block === undefined) continue;
+      drawIcon(ctx, cache.atlas, biome, block, sx + 3, hotbarY + 3, slotSize - 8, stats);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(String(countOf(inventory, block)), sx + slotSize - 2, hotbarY + slotSize - 1);
+      stats.drawCalls++;
+      if (block === state.selectedBlock) {
+          ctx.strokeStyle = CURSOR_COLORS[player.index];
+          ctx.strokeRect(sx - 0.5, hotbarY - 0.5, slotSize - 1, slotSize - 1);
+          stats.drawCalls++;
+      }
+  }
+  // Which page of the inventory is on show, once it's more than one hotbar
+  if (pages > 1) {
+      ctx.textAlign = 'left';
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillText(`${page + 1}/${pages}`, hotbarX + HOTBAR_SIZE * slotSize, hotbarY + slotSize - 1);
+      stats.drawCalls++;
+  }
+
+  // --- HUD: Health & Hunger ---
+  // Side by side, or hunger above health when the strip is too narrow
+  const statY = canvas.height - 10;
+  const statWidth = MAX_HUNGER / 2 * 8;
+  const stacked = region.width < statWidth * 2 + 16;
+  drawStat(ctx, HEART, '#FF3B3B', state.health, MAX_HEALTH, region.left + 4, statY, false, stats);
+  drawStat(ctx, DRUMSTICK, '#C8843C', state.hunger, MAX_HUNGER, right - 4 - statWidth, stacked ? statY - 9 : statY, true, stats);
+
+  // Red flash when hurt
+  if (player.hurtTime > 0) {
+      ctx.fillStyle = `rgba(255,0,0,${0.3 * player.hurtTime / HURT_COOLDOWN_MS})`;
+      ctx.fillRect(region.left, 0, region.width, canvas.height);
+      stats.drawCalls++;
+  }
+
+  // --- Crafting Menu ---
+  if (player.crafting) {
+      const { selected } = player.crafting;
+      const { recipes } = engine;
+      const margin = region.width < canvas.width ? 4 : 40;
+      const panelX = region.left + margin;
+      const panelWidth = region.width - margin * 2;
+      const panelY = 28;
+      const rowHeight = 18;
+      ctx.fillStyle = 'rgba(0,0,0,0.85)';
+      ctx.fillRect(panelX, panelY, panelWidth, 40 + CRAFTING_ROWS * rowHeight);
+      stats.drawCalls++;
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.strokeRect(panelX + 0.5, panelY + 0.5, panelWidth - 1, 40 + CRAFTING_ROWS * rowHeight - 1);
+      stats.drawCalls++;
+
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = "8px 'Press Start 2P'";
+      ctx.fillText('CRAFTING', panelX + 8, panelY + 8);
+      stats.drawCalls++;
+
+      const first = Math.max(0, Math.min(selected - CRAFTING_ROWS + 1, recipes.length - CRAFTING_ROWS));
+      ctx.font = "12px 'VT323'";
+      recipes.slice(first, first + CRAFTING_ROWS).forEach((recipe, i) => {
+          const rowY = panelY + 22 + i * rowHeight;
+          if (first + i === selected) {
+              ctx.fillStyle = 'rgba(255,255,255,0.15)';
+              ctx.fillRect(panelX + 4, rowY - 2, panelWidth - 8, rowHeight - 2);
+              stats.drawCalls++;
+          }
+          const { output, inputs, station } = recipe;
+          drawIcon(ctx, cache.atlas, biome, output.block, panelX + 8, rowY + 2, 10, stats);
+          const materials = inputs.map(input => `${input.count} ${getBlock(input.block).name}`).join(' + ');
+          const at = station === undefined ? '' : ` @ ${getBlock(station).name}`;
+          ctx.fillStyle = engine.canCraft(player, recipe) ? '#FFFFFF' : '#777777';
+          const text = `${output.count} ${getBlock(output.block).name} <- ${materials}${at}`;
+          ctx.fillText(text, panelX + 24, rowY + 1, panelWidth - 32);
+          stats.drawCalls++;
+      });
+
+      ctx.fillStyle = '#AAAAAA';
+      ctx.fillText('A: CRAFT   B: CLOSE', panelX + 8, panelY + 26 + CRAFTING_ROWS * rowHeight);
+      stats.drawCalls++;
+  }
+
+  // --- Death Screen ---
+  if (player.dead) {
+      const centre = region.left + region.width / 2;
+      ctx.fillStyle = 'rgba(80,0,0,0.7)';
+      ctx.fillRect(region.left, 0, region.width, canvas.height);
+      stats.drawCalls++;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = "16px 'Press Start 2P'";
+      ctx.fillText('YOU DIED', centre, canvas.height / 2 - 12);
+      stats.drawCalls++;
+      ctx.font = "8px 'Press Start 2P'";
+      ctx.fillText('PRESS A TO RESPAWN', centre, canvas.height / 2 + 14);
+      stats.drawCalls++;
+  }
+};
+
+// Draws the engine's current state: the world through one or two cameras,
+// then each player's HUD
+const renderGame = (
+  ctx: CanvasRenderingContext2D, engine: GameEngine, cache: RenderCache, stats: RenderStats, remotes: RemotePlayer[],
+) => {
+  const { canvas } = ctx;
+  const { players, biome } = engine;
+
+  // Clear
+  ctx.fillStyle = biome.skyColor;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  stats.drawCalls++;
+
+  ctx.imageSmoothingEnabled = false; // Keep scaled pixel art crisp
+  const views = layoutViews(players.map(player => player.state), canvas);
+  for (const view of views) {
+      drawWorld(ctx, engine, cache, view, remotes, stats);
+  }
+  if (views.length > 1) {
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(canvas.width / 2 - 1, 0, 2, canvas.height);
+      stats.drawCalls++;
+  }
+
+  const regions = hudRegions(canvas, players.length);
+  players.forEach((player, i) => drawHud(ctx, engine, cache, player, regions[i], stats));
+
+  // --- Debug Overlay (F3) ---
+  if (stats.visible) {
+      const lines = [
+          `FPS ${Math.round(stats.fps)}`,
+          `DRAW ${stats.lastDrawCalls}`,
+          `BAKED ${cache.chunks.rebuilds} SHADED ${cache.shades.rebuilds}`,
+          ...players.map(({ index, state }) =>
+              `${players.length > 1 ? `P${index + 1} ` : ''}XY ${Math.floor(state.x / TILE_SIZE)},${Math.floor(state.y / TILE_SIZE)}`),
+      ];
+      ctx.font = '8px monospace';
+      const width = Math.max(60, ...lines.map(line => ctx.measureText(line).width + 4));
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.fillRect(2, 2, width, lines.length * 9 + 3);
+      stats.drawCalls++;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = '#FFFF00';
+      lines.forEach((line, i) => ctx.fillText(line, 4, 4 + i * 9));
+      stats.drawCalls += lines.length;
+  }
+};
+
+
+// Runs a GameEngine off requestAnimationFrame and draws it. All game rules
+// live in the engine; this component only feeds it input and elapsed time.
+export const Screen: React.FC<ScreenProps> = ({ ref, inputState, partnerState, coop, session, biome, savedGame, onLog }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const requestRef = useRef<number>();
+  const lastFrameTime = useRef<number | null>(null);
+  // Pointer position in canvas pixels. Taps stick until the d-pad aims instead.
+  const pointerRef = useRef<{ x: number; y: number; sticky: boolean } | null>(null);
+  const engineRef = useRef<GameEngine | null>(null);
+  const cacheRef = useRef<RenderCache | null>(null);
+  const statsRef = useRef<RenderStats>({ visible: false, fps: 0, drawCalls: 0, lastDrawCalls: 0 });
+  const coopRef = useRef(coop);
+  const sessionRef = useRef(session);
+
+  // Start a fresh engine (or restore a save) whenever the biome changes
+  useEffect(() => {
+    const engine = new GameEngine(biome, onLog);
+    const atlas = createTileAtlas(biome);
+    cacheRef.current = {
+      atlas,
+      chunks: new ChunkCanvasCache(atlas),
+      shades: new ChunkShadeCache(biome),
+      sprites: SHIRT_COLORS.map(createPlayerSprites),
+    };
+    if (coopRef.current) engine.join();
+    if (savedGame) {
+      engine.load(savedGame);
+      onLog(`Loaded ${savedGame.name}. World seed: ${biome.seed}`);
     } else {
-      player.vx *= 0.8; // Friction
+      onLog(`Entering ${biome.name}... World seed: ${biome.seed}`);
     }
+    engineRef.current = engine;
+    sound.setMusic(biome);
+    return () => sound.stopMusic();
+  }, [biome, savedGame, onLog]);
 
-    // Apply Gravity
-    player.vy += biome.gravity; 
-    player.vy = Math.min(player.vy, 8); // Terminal velocity
-
-    // Jump
-    if (inputs.up && player.vy === 0) { // Simple ground check check
-       // We need a better ground check, but for now checking if vy was reset by collision last frame roughly works
-       // Actually, let's do proper collision first, then jump allowed if on ground.
-    }
-    
-    // Calculate potential new position
-    let newX = player.x + player.vx;
-    let newY = player.y + player.vy;
-    let onGround = false;
-
-    // --- Collision Detection (AABB) ---
-    // Player size is roughly TILE_SIZE x (TILE_SIZE * 1.8)
-    const pW = TILE_SIZE * 0.6;
-    const pH = TILE_SIZE * 1.6;
-    
-    const checkCollision = (checkX: number, checkY: number) => {
-        // Get grid coords of corners
-        const left = Math.floor((checkX - pW/2) / TILE_SIZE);
-        const right = Math.floor((checkX + pW/2 - 0.1) / TILE_SIZE);
-        const top = Math.floor((checkY - pH) / TILE_SIZE);
-        const bottom = Math.floor((checkY - 0.1) / TILE_SIZE);
-
-        // Check world bounds
-        if (left < 0 || right >= CHUNK_WIDTH || bottom >= CHUNK_HEIGHT) return true;
-        if (top < 0) return false; // Allow jumping above world
-
-        // Check tiles
-        for (let y = top; y <= bottom; y++) {
-            for (let x = left; x <= right; x++) {
-                if (world[y] && world[y][x] !== BlockType.AIR) return true;
-            }
-        }
-        return false;
-    };
+  // Player two joins or leaves without restarting the world
+  useEffect(() => {
+    coopRef.current = coop;
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (coop && engine.players.length === 1) engine.join();
+    if (!coop) engine.leave();
+  }, [coop]);
 
-    // Y Collision
-    if (checkCollision(player.x, newY)) {
-        if (player.vy > 0) {
-             // Hit ground
-             onGround = true;
-             // Snap to block top
-             newY = Math.floor(newY / TILE_SIZE) * TILE_SIZE; 
-        } else {
-             // Hit head
-             newY = Math.ceil(newY / TILE_SIZE) * TILE_SIZE + 0.1;
-        }
-        player.vy = 0;
-    }
-    player.y = newY;
+  useEffect(() => {
+    sessionRef.current = session;
+  }, [session]);
 
-    // X Collision
-    if (checkCollision(newX, player.y)) {
-        newX = player.x; // Stop
-        player.vx = 0;
-    }
-    player.x = newX;
+  useImperativeHandle(ref, () => ({
+    snapshot: () => engineRef.current!.snapshot(),
+  }), []);
 
-    // Handle Jump Input (must be on ground)
-    if (inputs.up && onGround) {
-        player.vy = -6; // Jump force
+  // The Game Loop
+  const update = useCallback((time: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    // Real time since the last frame; the engine turns it into fixed steps
+    const dt = lastFrameTime.current === null ? 0 : time - lastFrameTime.current;
+    lastFrameTime.current = time;
+
+    const stats = statsRef.current;
+    if (dt > 0) stats.fps += (1000 / dt - stats.fps) * 0.1; // Smoothed so it's readable
+
+    const engine = engineRef.current;
+    const cache = cacheRef.current;
+    if (engine && cache) {
+      const inputs = inputState.current;
+      if (pointerRef.current?.sticky && (inputs.up || inputs.down)) pointerRef.current = null;
+      // The mouse / taps aim for player one, through the view showing them
+      const pointer = pointerRef.current;
+      const [player] = engine.players;
+      const [view] = layoutViews(engine.players.map(other => other.state), ctx.canvas);
+      const inView = pointer && pointer.x >= view.left && pointer.x < view.left + view.width;
+      player.pointer = inView ? {
+        x: (pointer.x - view.left) / view.scale + view.camera.x,
+        y: pointer.y / view.scale + view.camera.y,
+      } : null;
+      // Online, the host runs fluids and mobs for everyone
+      const session = sessionRef.current;
+      engine.authoritative = session?.role !== 'guest';
+      if (!session) engine.remoteColumns = [];
+      engine.step([inputs, partnerState.current], dt);
+      const events = engine.takeEvents();
+      events.forEach(event => sound.play(event));
+      session?.tick(engine, events, time);
+      stats.lastDrawCalls = stats.drawCalls;
+      stats.drawCalls = 0;
+      renderGame(ctx, engine, cache, stats, session?.remotePlayers(time) ?? []);
     }
 
-    // --- Actions (Mine/Place) ---
-    const now = Date.now();
-    if ((inputs.actionA || inputs.actionB) && now - lastActionTime.current > 200) {
-        // Target block: 1 tile in front, same height as center body
-        const reach = TILE_SIZE * 1.5;
-        const targetX = player.x + (player.facingRight ? reach : -reach);
-        const targetY = player.y - pH * 0.5;
-
-        const gx = Math.floor(targetX / TILE_SIZE);
-        const gy = Math.floor(targetY / TILE_SIZE);
-
-        if (gx >= 0 && gx < CHUNK_WIDTH && gy >= 0 && gy < CHUNK_HEIGHT) {
-            if (inputs.actionA) {
-                // Mine (A button)
-                if (world[gy][gx] !== BlockType.BEDROCK) {
-                    world[gy][gx] = BlockType.AIR;
-                    lastActionTime.current = now;
-                }
-            } else if (inputs.actionB) {
-                // Place (B button) - if air
-                if (world[gy][gx] === BlockType.AIR) {
-                    // Simple cycle of inventory for demo: Dirt -> Stone -> Wood
-                    const blockToPlace = player.selectedBlock;
-                    // Check if player is inside?
-                    if (!checkCollision(targetX, targetY)) { // Wait this checks point, not box. 
-                       // Simplified: just place it.
-                       world[gy][gx] = blockToPlace;
-                       lastActionTime.current = now;
-                    }
-                } else {
-                    // If holding B on a block, maybe change selected block?
-                    // Let's cycle selected block for Action B if target is NOT air?
-                    // Or just a dedicated cycle logic. Let's make Action B strictly placement for now, 
-                    // maybe cycle automatically or use a UI button for simplicity in this limited UI.
-                    // Hack: Cycle block if clicking B on a solid block
-                     const types = [BlockType.DIRT, BlockType.STONE, BlockType.WOOD, BlockType.GRASS, BlockType.LEAVES];
-                     const idx = types.indexOf(player.selectedBlock);
-                     player.selectedBlock = types[(idx + 1) % types.length];
-                     onLog(`Equipped: ${BlockType[player.selectedBlock]}`);
-                     lastActionTime.current = now;
-                }
-            }
-        }
+    requestRef.current = requestAnimationFrame(update);
+  }, [inputState, partnerState]);
+
+  // Mouse aiming follows the cursor while it's over the screen; touch and pen
+  // taps keep aiming at the tapped spot
+  const handlePointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointerRef.current = { ...canvasPoint(e), sticky: e.pointerType !== 'mouse' };
+  };
+
+  // Tapping a hotbar slot equips it instead of aiming there. Only player
+  // one's hotbar can be tapped.
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const engine = engineRef.current;
+    const { x, y } = canvasPoint(e);
+    const [region] = hudRegions(e.currentTarget, engine?.players.length ?? 1);
+    const slot = hotbarSlotAt(region, x, y);
+    if (slot === null || !engine) {
+      handlePointer(e);
+    } else {
+      engine.selectSlot(engine.players[0], slot);
     }
+  };
 
-    // --- Rendering ---
-    // Clear
-    ctx.fillStyle = biome.skyColor;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    ctx.save();
-    ctx.scale(RENDER_SCALE, RENDER_SCALE);
-
-    // Camera follow player
-    const camX = Math.floor(player.x - (canvas.width / RENDER_SCALE) / 2);
-    const camY = Math.floor(player.y - (canvas.height / RENDER_SCALE) / 2);
-    // Clamp camera
-    const maxCamX = CHUNK_WIDTH * TILE_SIZE - (canvas.width / RENDER_SCALE);
-    const maxCamY = CHUNK_HEIGHT * TILE_SIZE - (canvas.height / RENDER_SCALE);
-    const clampedCamX = Math.max(0, Math.min(camX, maxCamX));
-    const clampedCamY = Math.max(0, Math.min(camY, maxCamY));
-
-    ctx.translate(-clampedCamX, -clampedCamY);
-
-    // Draw World
-    const startCol = Math.floor(clampedCamX / TILE_SIZE);
-    const endCol = startCol + Math.ceil(canvas.width / RENDER_SCALE / TILE_SIZE) + 1;
-    const startRow = Math.floor(clampedCamY / TILE_SIZE);
-    const endRow = startRow + Math.ceil(canvas.height / RENDER_SCALE / TILE_SIZE) + 1;
-
-    for (let y = startRow; y < endRow; y++) {
-        if (!world[y]) continue;
-        for (let x = startCol; x < endCol; x++) {
-            const block = world[y][x];
-            if (block !== BlockType.AIR) {
-                ctx.fillStyle = biome.blockColors[block as BlockType] || '#FF00FF';
-                ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
-                
-                // Simple shading/border
-                ctx.fillStyle = 'rgba(0,0,0,0.1)';
-                ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE + TILE_SIZE - 2, TILE_SIZE, 2);
-                ctx.fillRect(x * TILE_SIZE + TILE_SIZE - 2, y * TILE_SIZE, 2, TILE_SIZE);
-            }
-        }
-    }
+  const handlePointerLeave = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'mouse') pointerRef.current = null;
+  };
 
-    // Draw Player
-    ctx.fillStyle = '#FF0000'; // Shirt
-    ctx.fillRect(player.x - pW/2, player.y - pH, pW, pH);
-    // Head
-    ctx.fillStyle = '#FFCCAA'; // Skin
-    ctx.fillRect(player.x - pW/2, player.y - pH, pW, pH * 0.4);
-    
-    // Draw Selection Cursor
-    const reach = TILE_SIZE * 1.5;
-    const targetX = player.x + (player.facingRight ? reach : -reach);
-    const targetY = player.y - pH * 0.5;
-    const cursorX = Math.floor(targetX / TILE_SIZE) * TILE_SIZE;
-    const cursorY = Math.floor(targetY / TILE_SIZE) * TILE_SIZE;
-    
-    ctx.strokeStyle = '#FFFFFF';
-    ctx.lineWidth = 1;
-    ctx.strokeRect(cursorX, cursorY, TILE_SIZE, TILE_SIZE);
-
-    ctx.restore();
-    
-    requestRef.current = requestAnimationFrame(() => update(time));
-  }, [biome, inputState, onLog]);
+  // F3 toggles the debug overlay
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'F3') return;
+      e.preventDefault();
+      statsRef.current.visible = !statsRef.current.visible;
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   useEffect(() => {
-    requestRef.current = requestAnimationFrame((t) => update(t));
+    lastFrameTime.current = null;
+    requestRef.current = requestAnimationFrame(update);
     return () => cancelAnimationFrame(requestRef.current!);
   }, [update]);
 
@@ -311,7 +619,10 @@ export const Screen: React.FC<ScreenProps> = ({ inputState, biome, onLog }) => {
         ref={canvasRef} 
         width={320} 
         height={240} 
-        className="w-full h-full bg-black"
+        className="w-full h-full bg-black touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={(e) => (e.pointerType === 'mouse' || e.buttons) && handlePointer(e)}
+        onPointerLeave={handlePointerLeave}
     />
   );
 };
\ No newline at end of file
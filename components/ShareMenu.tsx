@@ -0,0 +1,107 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Share2 } from 'lucide-react';
+import { BiomeConfig } from '../types';
+import { Chunk } from '../services/chunkStore';
+import { ShareBundle, ShareCodeError, createBundle, encodeShareCode, exportJson, importJson } from '../services/shareCode';
+
+interface ShareMenuProps {
+  biome: BiomeConfig;
+  getEditedChunks: () => Chunk[];
+  onImport: (bundle: ShareBundle) => void;
+  onClose: () => void;
+}
+
+export const ShareMenu: React.FC<ShareMenuProps> = ({ biome, getEditedChunks, onImport, onClose }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [includeWorld, setIncludeWorld] = useState(false);
+  const [status, setStatus] = useState("");
+
+  const bundle = useMemo(
+    () => createBundle(biome, includeWorld ? getEditedChunks() : undefined),
+    [biome, includeWorld, getEditedChunks]
+  );
+  const shareCode = useMemo(() => encodeShareCode(bundle), [bundle]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareCode);
+      setStatus("Share code copied!");
+    } catch {
+      setStatus("Copy failed - select the code manually.");
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([exportJson(bundle)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${biome.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'biome'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(importJson(await file.text()));
+    } catch (error) {
+      setStatus(error instanceof ShareCodeError ? error.message : "Could not read file.");
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border-2 border-indigo-500 p-6 rounded-lg max-w-md w-full shadow-2xl">
+        <div className="flex items-center gap-2 mb-4 text-indigo-400">
+          <Share2 size={20} />
+          <h3 className="font-['Press_Start_2P'] text-sm uppercase">Share Biome</h3>
+        </div>
+        <label className="flex items-center gap-2 text-zinc-400 font-['VT323'] text-lg mb-2">
+          <input
+            type="checkbox"
+            checked={includeWorld}
+            onChange={(e) => setIncludeWorld(e.target.checked)}
+          />
+          Include my world edits
+        </label>
+        <textarea
+          readOnly
+          value={shareCode}
+          onFocus={(e) => e.target.select()}
+          className="w-full h-20 bg-zinc-800 border border-zinc-700 text-zinc-300 px-2 py-1 rounded font-mono text-[10px] break-all resize-none focus:outline-none focus:border-indigo-500 mb-2"
+        />
+        <p className="text-zinc-500 font-['VT323'] text-lg mb-4 min-h-[1.25rem]">{status}</p>
+        <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        <div className="flex justify-end flex-wrap gap-2 font-['Press_Start_2P'] text-[10px]">
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            IMPORT FILE
+          </button>
+          <button
+            onClick={handleDownload}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            DOWNLOAD
+          </button>
+          <button
+            onClick={handleCopy}
+            className="px-4 py-2 bg-indigo-600 text-white hover:bg-indigo-500 rounded"
+          >
+            COPY CODE
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-zinc-700 text-zinc-300 hover:bg-zinc-600 rounded"
+          >
+            CLOSE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
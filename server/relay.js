@@ -0,0 +1,95 @@
+import { WebSocketServer } from "ws";
+
+// Multiplayer relay: `npm run relay`, then host or join from the game's
+// ONLINE menu. Players connect to ws://<this machine>:8787/?room=CODE&role=host|guest
+// and the relay just passes their messages around the room; the host's
+// browser runs the actual game (see services/netProtocol.ts). Set PORT to
+// listen elsewhere.
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_CODE = /^[A-Z0-9]{1,8}$/;
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024; // Whole worlds are sent as one message
+
+// code -> { host, guests: Set }
+const rooms = new Map();
+let nextId = 1;
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const refuse = (socket, message) => {
+  send(socket, { relay: "error", message });
+  socket.close();
+};
+
+const members = (room) => [room.host, ...room.guests];
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on("connection", (socket, request) => {
+  // A bad frame (over MAX_MESSAGE_BYTES, text that isn't UTF-8) only ends
+  // that connection; without a listener it would take the whole relay down
+  socket.on("error", (error) => {
+    console.warn(`connection ${socket.id ?? "(new)"}: ${error.message}`);
+    socket.close();
+  });
+
+  const params = new URL(request.url ?? "/", "ws://relay").searchParams;
+  const code = (params.get("room") ?? "").toUpperCase();
+  const role = params.get("role");
+  if (!ROOM_CODE.test(code) || (role !== "host" && role !== "guest")) {
+    refuse(socket, "Bad room code.");
+    return;
+  }
+
+  let room = rooms.get(code);
+  if (role === "host" && room) {
+    refuse(socket, `Room ${code} already has a host.`);
+    return;
+  }
+  if (role === "guest" && !room) {
+    refuse(socket, `Nobody is hosting room ${code}.`);
+    return;
+  }
+
+  socket.id = String(nextId++);
+  if (role === "host") {
+    room = { host: socket, guests: new Set() };
+    rooms.set(code, room);
+  } else {
+    for (const other of members(room)) send(other, { relay: "joined", id: socket.id });
+    room.guests.add(socket);
+  }
+  send(socket, { relay: "hello", id: socket.id, host: room.host.id });
+  console.log(`${role} ${socket.id} in room ${code}`);
+
+  // Messages go to one player or everyone else in the room, stamped with the sender
+  socket.on("message", (raw) => {
+    let envelope;
+    try {
+      envelope = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+    const message = JSON.stringify({ from: socket.id, data: envelope?.data });
+    for (const other of members(room)) {
+      if (other === socket || (envelope?.to !== undefined && other.id !== envelope.to)) continue;
+      if (other.readyState === other.OPEN) other.send(message);
+    }
+  });
+
+  // The room ends with its host
+  socket.on("close", () => {
+    if (socket === room.host) {
+      rooms.delete(code);
+      for (const guest of room.guests) refuse(guest, "The host left.");
+      console.log(`room ${code} closed`);
+    } else {
+      room.guests.delete(socket);
+      for (const other of members(room)) send(other, { relay: "left", id: socket.id });
+    }
+  });
+});
+
+console.log(`PocketCraft relay listening on ws://localhost:${PORT}`);
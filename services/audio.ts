@@ -0,0 +1,281 @@
+import { BiomeConfig, DEFAULT_MUSIC, MusicScale } from "../types";
+import { getBlock } from "./blocks";
+import { GameEvent } from "./engine";
+import { createRng, deriveSeed } from "./random";
+
+// Chiptune sound, synthesized with Web Audio: square and noise blips for the
+// game's events and a small sequencer playing a tune composed from the
+// biome's seed in the style its `music` settings ask for. Nothing is loaded,
+// so it works offline like the rest of the game.
+
+const STORAGE_KEY = "pocketcraft.audio";
+
+export interface AudioSettings {
+  volume: number; // 0.0 to 1.0
+  muted: boolean;
+}
+
+const DEFAULT_SETTINGS: AudioSettings = { volume: 0.5, muted: false };
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return { ...DEFAULT_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const saveAudioSettings = (settings: AudioSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- Music ---
+
+// Semitones above the root of each scale degree
+const SCALES: Record<MusicScale, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  pentatonic: [0, 2, 4, 7, 9],
+  blues: [0, 3, 5, 6, 7, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+};
+
+// Chord roots per bar, as scale degrees
+const PROGRESSIONS = [[0, 3, 4, 0], [0, 5, 3, 4], [0, 4, 5, 3], [5, 3, 0, 4], [0, 0, 3, 4]];
+
+const BARS = 4;
+const STEPS_PER_BAR = 8; // Eighth notes
+const MUSIC_LOOKAHEAD = 0.2; // Seconds of music scheduled ahead of time
+const SCHEDULE_MS = 100;
+
+interface Tune {
+  stepSeconds: number;
+  lead: (number | null)[]; // Frequency per step, null rests
+  bass: (number | null)[];
+  drums: ("kick" | "snare" | "hat" | null)[];
+  music: typeof DEFAULT_MUSIC;
+}
+
+const frequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+// One looping tune, always the same for the same biome
+const composeTune = (biome: BiomeConfig): Tune => {
+  const music = biome.music ?? DEFAULT_MUSIC;
+  const rng = createRng(deriveSeed(biome.seed, "music"));
+  const scale = SCALES[music.scale];
+  // Scale degrees past the end of the scale continue into the next octave
+  const note = (degree: number) =>
+    frequency(music.rootNote + 12 * Math.floor(degree / scale.length) + scale[degree % scale.length]);
+
+  const progression = PROGRESSIONS[Math.floor(rng() * PROGRESSIONS.length)];
+  const tune: Tune = { stepSeconds: 30 / music.tempo, lead: [], bass: [], drums: [], music };
+  let melody = scale.length; // The melody wanders around an octave above the root
+  for (let bar = 0; bar < BARS; bar++) {
+    const chord = progression[bar];
+    for (let step = 0; step < STEPS_PER_BAR; step++) {
+      // Lead: a random walk that lands on the chord at the start of the bar
+      if (step === 0) {
+        melody = chord + scale.length;
+      } else {
+        melody = Math.max(2, Math.min(scale.length * 2 + 2, melody + Math.floor(rng() * 5) - 2));
+      }
+      tune.lead.push(step === 0 || rng() < 0.6 ? note(melody) : null);
+      tune.bass.push(step % 4 === 0 ? note(chord) / 2 : step % 2 === 0 && rng() < 0.5 ? note(chord + 4) / 2 : null);
+      // Drums: kick and snare on the beat if the biome wants any, hi-hats as busy as asked
+      const drum = music.drums <= 0 ? null
+        : step % 4 === 0 ? "kick"
+        : step % 4 === 2 && music.drums >= 0.3 ? "snare"
+        : rng() < music.drums * 0.8 ? "hat" : null;
+      tune.drums.push(drum);
+    }
+  }
+  return tune;
+};
+
+// --- Sound engine ---
+
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  private settings = loadAudioSettings();
+
+  private tune: Tune | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private nextStepTime = 0;
+  private step = 0;
+
+  get volume() {
+    return this.settings.volume;
+  }
+
+  get muted() {
+    return this.settings.muted;
+  }
+
+  setVolume(volume: number) {
+    this.settings = { ...this.settings, volume: Math.max(0, Math.min(1, volume)) };
+    this.applySettings();
+  }
+
+  setMuted(muted: boolean) {
+    this.settings = { ...this.settings, muted };
+    this.applySettings();
+  }
+
+  // The context is created on first use rather than on page load, since
+  // browsers only let audio start once the player has interacted
+  private audio(): AudioContext | null {
+    if (!this.context) {
+      const Context = typeof window === "undefined" ? undefined : window.AudioContext;
+      if (!Context) return null;
+      const context = new Context();
+      this.master = context.createGain();
+      this.master.connect(context.destination);
+      this.musicBus = context.createGain();
+      this.musicBus.gain.value = 0.35; // Music sits under the effects
+      this.musicBus.connect(this.master);
+      // A second of white noise, replayed at different rates for the noise channel
+      this.noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+      const samples = this.noise.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+      this.context = context;
+      this.applySettings();
+    }
+    if (this.context.state === "suspended") this.context.resume();
+    return this.context;
+  }
+
+  private applySettings() {
+    saveAudioSettings(this.settings);
+    if (this.master && this.context) {
+      const level = this.settings.muted ? 0 : this.settings.volume;
+      this.master.gain.setTargetAtTime(level * level, this.context.currentTime, 0.02); // Perceived loudness
+    }
+  }
+
+  // A pitch sweep from `from` to `to` Hz with a quick decay
+  private tone(
+    wave: OscillatorType, from: number, to: number, start: number, duration: number, level: number, out = this.master!,
+  ) {
+    const context = this.context!;
+    const osc = context.createOscillator();
+    const gain = context.createGain();
+    osc.type = wave;
+    osc.frequency.setValueAtTime(from, start);
+    if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    gain.gain.setValueAtTime(level, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    osc.connect(gain).connect(out);
+    osc.start(start);
+    osc.stop(start + duration);
+  }
+
+  // A burst of filtered noise; higher `brightness` sounds hissier
+  private burst(start: number, duration: number, level: number, brightness: number, out = this.master!) {
+    const context = this.context!;
+    const source = context.createBufferSource();
+    const filter = context.createBiquadFilter();
+    const gain = context.createGain();
+    source.buffer = this.noise;
+    filter.type = "lowpass";
+    filter.frequency.value = brightness;
+    gain.gain.setValueAtTime(level, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    source.connect(filter).connect(gain).connect(out);
+    source.start(start, Math.random() * 0.5);
+    source.stop(start + duration);
+  }
+
+  play(event: GameEvent) {
+    const context = this.audio();
+    if (!context || this.settings.muted) return;
+    const now = context.currentTime;
+    switch (event.type) {
+      case "jump":
+        this.tone("square", 260, 620, now, 0.12, 0.15);
+        break;
+      case "land":
+        this.burst(now, 0.08, Math.min(0.5, event.impact * 0.06), 700);
+        break;
+      case "mine": {
+        // Soft blocks crumble high, hard ones clunk low
+        const hardness = Math.min(getBlock(event.block).hardness, 3);
+        const pitch = 600 / (1 + hardness);
+        this.tone("square", pitch, pitch * 0.5, now, 0.1, 0.12);
+        this.burst(now, 0.12, 0.25, 2000 / (1 + hardness));
+        break;
+      }
+      case "place":
+        this.tone("square", 180, 180, now, 0.04, 0.12);
+        this.burst(now, 0.05, 0.2, 1200);
+        break;
+      case "hurt":
+        this.tone("square", 400, 90, now, 0.25, 0.18);
+        break;
+      case "craft":
+        if (event.ok) {
+          [523, 659, 784].forEach((note, i) => this.tone("square", note, note, now + i * 0.06, 0.08, 0.12));
+        } else {
+          this.tone("square", 140, 110, now, 0.18, 0.15);
+        }
+        break;
+      case "menu":
+        this.click();
+        break;
+    }
+  }
+
+  // Short blip for console buttons and menus
+  click() {
+    const context = this.audio();
+    if (!context || this.settings.muted) return;
+    this.tone("square", 1200, 1200, context.currentTime, 0.03, 0.08);
+  }
+
+  // Start the biome's tune, replacing whatever was playing
+  setMusic(biome: BiomeConfig) {
+    this.stopMusic();
+    this.tune = composeTune(biome);
+    this.step = 0;
+    this.nextStepTime = 0;
+    this.timer = setInterval(() => this.scheduleMusic(), SCHEDULE_MS);
+  }
+
+  stopMusic() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    this.tune = null;
+  }
+
+  // Queues the notes due before the lookahead window ends. Waits for the
+  // context to exist rather than creating it, so music never starts before
+  // the player has done anything.
+  private scheduleMusic() {
+    const { context, tune } = this;
+    if (!context || context.state !== "running" || !tune || this.settings.muted) return;
+    // Resync after a pause (muted, background tab) instead of catching up
+    if (this.nextStepTime < context.currentTime) this.nextStepTime = context.currentTime + 0.05;
+
+    const { stepSeconds, music } = tune;
+    const bus = this.musicBus!;
+    while (this.nextStepTime < context.currentTime + MUSIC_LOOKAHEAD) {
+      const at = this.nextStepTime;
+      const lead = tune.lead[this.step];
+      const bass = tune.bass[this.step];
+      const drum = tune.drums[this.step];
+      if (lead !== null) this.tone(music.lead, lead, lead, at, stepSeconds * 0.9, 0.12, bus);
+      if (bass !== null) this.tone(music.bass, bass, bass, at, stepSeconds * 1.8, 0.2, bus);
+      if (drum === "kick") this.tone("sine", 150, 40, at, 0.12, 0.5, bus);
+      if (drum === "snare") this.burst(at, 0.1, 0.3, 4000, bus);
+      if (drum === "hat") this.burst(at, 0.03, 0.12, 9000, bus);
+      this.step = (this.step + 1) % tune.lead.length;
+      this.nextStepTime += stepSeconds;
+    }
+  }
+}
+
+export const sound = new SoundEngine();
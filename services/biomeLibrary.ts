@@ -0,0 +1,68 @@
+import { BiomeConfig, DEFAULT_BIOME } from "../types";
+
+// Every generated biome is kept with the prompt that made it, so the player
+// can switch back to an old world without asking the AI again. Favorites are
+// kept forever; the rest are trimmed to the most recent MAX_HISTORY.
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  prompt: string;
+  biome: BiomeConfig; // Includes the seed, so playing it rebuilds the same world
+  createdAt: number;
+  favorite: boolean;
+}
+
+const MAX_HISTORY = 30;
+const STORAGE_KEY = "pocketcraft.library";
+
+const readEntries = (): LibraryEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    // Biome fields added since the entry was stored keep their defaults
+    return stored
+      .filter(entry => entry?.id && entry.biome)
+      .map(entry => ({ ...entry, biome: { ...DEFAULT_BIOME, ...entry.biome } }));
+  } catch (error) {
+    console.error("Corrupt biome library:", error);
+    return [];
+  }
+};
+
+const writeEntries = (entries: LibraryEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+// Favorites first, then newest first
+export const listLibrary = (): LibraryEntry[] =>
+  readEntries().sort((a, b) => Number(b.favorite) - Number(a.favorite) || b.createdAt - a.createdAt);
+
+export const addToLibrary = (prompt: string, biome: BiomeConfig): LibraryEntry => {
+  const entry: LibraryEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: biome.name,
+    prompt: prompt.trim(),
+    biome,
+    createdAt: Date.now(),
+    favorite: false,
+  };
+  const entries = [entry, ...readEntries()];
+  let kept = 0;
+  writeEntries(entries.filter(other => other.favorite || ++kept <= MAX_HISTORY));
+  return entry;
+};
+
+const updateEntry = (id: string, changes: Partial<LibraryEntry>) => {
+  writeEntries(readEntries().map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+};
+
+export const renameEntry = (id: string, name: string) => {
+  if (name.trim()) updateEntry(id, { name: name.trim().slice(0, 32) });
+};
+
+export const setFavorite = (id: string, favorite: boolean) => updateEntry(id, { favorite });
+
+export const deleteEntry = (id: string) => {
+  writeEntries(readEntries().filter(entry => entry.id !== id));
+};
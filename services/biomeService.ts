@@ -0,0 +1,407 @@
+import { Type } from "@google/genai";
+import {
+  BIOME_LIMITS, BiomeConfig, BiomeMusic, BlockSpawn, BlockType, CustomBlock, DEFAULT_BIOME, DEFAULT_MUSIC, MUSIC_SCALES,
+  MobKind, Recipe, RecipeItem, Stratum, WAVEFORMS,
+} from "../types";
+import { CUSTOM_BLOCK_START, MAX_CUSTOM_BLOCKS } from "./blocks";
+import { randomSeed } from "./random";
+import { JsonObject, asArray, asObject, isInteger, isObject, oneOf } from "./validation";
+
+// Everything about turning a theme into a biome that doesn't depend on who
+// answers: the prompt, the response schema, validation of the answer, and
+// timeouts and retries. The providers themselves live in providers.ts.
+
+export class BiomeGenerationError extends Error {
+  constructor(message: string, readonly retryable = false) {
+    super(message);
+    this.name = "BiomeGenerationError";
+  }
+}
+
+const SPAWNS: BlockSpawn[] = ['surface', 'underground', 'canopy', 'ore'];
+const isSpawn = oneOf(SPAWNS);
+
+// The model's answer is only loosely trusted: numbers are clamped into
+// BIOME_LIMITS, colors are normalized to #RRGGBB, and anything unusable
+// falls back to the default biome's value or is dropped.
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) => {
+  const number = typeof value === "number" ? value : typeof value === "string" ? parseFloat(value) : NaN;
+  return Number.isFinite(number) ? Math.max(min, Math.min(max, number)) : fallback;
+};
+
+// "#abc", "abc", "#AABBCC" and "aabbcc" all become "#AABBCC"; anything else is null
+export const normalizeColor = (value: unknown): string | null => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(String(value ?? "").trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return `#${hex.toUpperCase()}`;
+};
+
+// Turn the model's block proposals into custom block types with fresh ids
+const mapCustomBlocks = (blocks: unknown): CustomBlock[] =>
+  asArray(blocks).map(asObject)
+    .filter(block => block.name && normalizeColor(block.color) && isSpawn(block.spawn))
+    .slice(0, MAX_CUSTOM_BLOCKS)
+    .map((block, i) => ({
+      id: CUSTOM_BLOCK_START + i,
+      name: String(block.name).slice(0, 24),
+      color: normalizeColor(block.color)!,
+      hardness: clamp(block.hardness, BIOME_LIMITS.hardness, 1),
+      solid: block.solid !== false,
+      spawn: SPAWNS.find(spawn => spawn === block.spawn),
+    }));
+
+// Strata name either a built-in ground block or one of the biome's custom blocks
+const STRATA_BLOCKS = [BlockType.DIRT, BlockType.STONE, BlockType.GRASS, BlockType.WOOD, BlockType.ORE];
+
+const mapStrata = (strata: unknown, customBlocks: CustomBlock[]): Stratum[] => {
+  const mapped = asArray(strata).slice(0, BIOME_LIMITS.strata).map(asObject).map(layer => {
+    const key = String(layer.block ?? "").toLowerCase();
+    const builtIn = STRATA_BLOCKS.find(block => BlockType[block].toLowerCase() === key);
+    const custom = customBlocks.find(block => block.name.toLowerCase() === key);
+    const block = builtIn ?? custom?.id;
+    if (block === undefined) return null;
+    return { block, thickness: Math.round(clamp(layer.thickness, BIOME_LIMITS.stratumThickness, 3)) };
+  }).filter((layer): layer is Stratum => layer !== null);
+  return mapped.length ? mapped : DEFAULT_BIOME.strata;
+};
+
+const mapMobs = (mobs: unknown): MobKind[] =>
+  asArray(mobs).map(asObject)
+    .filter(mob => mob.name && normalizeColor(mob.color))
+    .slice(0, BIOME_LIMITS.mobs)
+    .map(mob => ({
+      name: String(mob.name).slice(0, 24),
+      color: normalizeColor(mob.color)!,
+      size: clamp(mob.size, BIOME_LIMITS.mobSize, 1),
+      speed: clamp(mob.speed, BIOME_LIMITS.mobSpeed, 1),
+      hostile: mob.hostile === true,
+    }));
+
+// Recipes name built-in items or the biome's custom blocks
+const RECIPE_BLOCKS = [
+  BlockType.DIRT, BlockType.GRASS, BlockType.STONE, BlockType.WOOD, BlockType.LEAVES, BlockType.ORE,
+  BlockType.TORCH, BlockType.PLANKS, BlockType.STICK, BlockType.WORKBENCH, BlockType.BRICKS,
+];
+
+const mapRecipes = (recipes: unknown, customBlocks: CustomBlock[]): Recipe[] => {
+  const item = (name: unknown, count: unknown): RecipeItem | null => {
+    const key = String(name ?? "").toLowerCase();
+    const builtIn = RECIPE_BLOCKS.find(block => BlockType[block].toLowerCase() === key);
+    const block = builtIn ?? customBlocks.find(custom => custom.name.toLowerCase() === key)?.id;
+    if (block === undefined) return null;
+    return { block, count: Math.round(clamp(count, BIOME_LIMITS.recipeCount, 1)) };
+  };
+  return asArray(recipes).map(asObject).map((recipe): Recipe | null => {
+    const output = item(recipe.output, recipe.count);
+    const inputs = asArray(recipe.inputs)
+      .slice(0, BIOME_LIMITS.recipeInputs)
+      .map(asObject)
+      .map(input => item(input.block, input.count));
+    if (!output || inputs.length === 0 || inputs.includes(null)) return null;
+    return { output, inputs, ...(recipe.workbench === true && { station: BlockType.WORKBENCH }) };
+  }).filter((recipe): recipe is Recipe => recipe !== null).slice(0, BIOME_LIMITS.recipes);
+};
+
+// Anything the model leaves out or gets wrong falls back to the default style
+const isScale = oneOf(MUSIC_SCALES);
+const isWaveform = oneOf(WAVEFORMS);
+const mapMusic = (music: unknown): BiomeMusic => {
+  const { scale, tempo, rootNote, lead, bass, drums } = asObject(music);
+  return {
+    scale: isScale(scale) ? scale : DEFAULT_MUSIC.scale,
+    tempo: Math.round(clamp(tempo, BIOME_LIMITS.tempo, DEFAULT_MUSIC.tempo)),
+    rootNote: Math.round(clamp(rootNote, BIOME_LIMITS.rootNote, DEFAULT_MUSIC.rootNote)),
+    lead: isWaveform(lead) ? lead : DEFAULT_MUSIC.lead,
+    bass: isWaveform(bass) ? bass : DEFAULT_MUSIC.bass,
+    drums: clamp(drums, BIOME_LIMITS.drums, DEFAULT_MUSIC.drums),
+  };
+};
+
+// Block colors the model may set, keyed as in the response schema
+const COLOR_KEYS: [string, BlockType][] = [
+  ["dirt", BlockType.DIRT], ["grass", BlockType.GRASS], ["stone", BlockType.STONE], ["wood", BlockType.WOOD],
+  ["leaves", BlockType.LEAVES], ["ore", BlockType.ORE], ["water", BlockType.WATER], ["lava", BlockType.LAVA],
+];
+
+type RangedField =
+  "gravity" | "terrainRoughness" | "treeDensity" | "caveDensity" | "oreFrequency" | "waterLevel" | "dayLength" | "ambientLight";
+
+// Build a playable biome out of whatever JSON came back
+export const parseBiome = (data: unknown): BiomeConfig => {
+  if (!isObject(data)) {
+    throw new BiomeGenerationError("The answer wasn't a biome.", true);
+  }
+  const customBlocks = mapCustomBlocks(data.customBlocks);
+  const blockColors: BiomeConfig["blockColors"] = { [BlockType.BEDROCK]: "#000000" }; // Constant
+  for (const [key, block] of COLOR_KEYS) {
+    blockColors[block] = normalizeColor(asObject(data.blockColors)[key]) ?? DEFAULT_BIOME.blockColors[block];
+  }
+  const ranged = (field: RangedField) => clamp(data[field], BIOME_LIMITS[field], DEFAULT_BIOME[field]);
+
+  return {
+    name: typeof data.name === "string" && data.name.trim() ? data.name.trim().slice(0, 32) : "Unknown Biome",
+    skyColor: normalizeColor(data.skyColor) ?? DEFAULT_BIOME.skyColor,
+    blockColors,
+    gravity: ranged("gravity"),
+    terrainRoughness: ranged("terrainRoughness"),
+    treeDensity: ranged("treeDensity"),
+    caveDensity: ranged("caveDensity"),
+    oreFrequency: ranged("oreFrequency"),
+    waterLevel: ranged("waterLevel"),
+    dayLength: Math.round(ranged("dayLength")),
+    ambientLight: ranged("ambientLight"),
+    strata: mapStrata(data.strata, customBlocks),
+    seed: isInteger(data.seed) && Number.isSafeInteger(data.seed) && data.seed >= 0 ? data.seed >>> 0 : randomSeed(), // Fixtures may pin it
+    customBlocks,
+    mobs: mapMobs(data.mobs),
+    recipes: mapRecipes(data.recipes, customBlocks),
+    music: mapMusic(data.music),
+  };
+};
+
+// Models often wrap JSON in a markdown fence or chat around it
+export const parseBiomeText = (text: string) => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end < start) throw new BiomeGenerationError("The answer contained no JSON.", true);
+  try {
+    return parseBiome(JSON.parse(text.slice(start, end + 1)));
+  } catch (error) {
+    if (error instanceof SyntaxError) throw new BiomeGenerationError("The answer was malformed JSON.", true);
+    throw error;
+  }
+};
+
+export const biomePrompt = (prompt: string) => `Create a unique 2D voxel game biome based on this theme: "${prompt}".
+  Return colors in hex format.
+  Gravity should be between 0.2 (low) and 0.8 (high).
+  Roughness 0.0 (flat) to 1.0 (jagged).
+  TreeDensity 0.0 (none) to 0.3 (dense).
+  CaveDensity 0.0 (solid ground) to 1.0 (riddled with caves).
+  OreFrequency 0.0 (barren) to 1.0 (rich veins).
+  WaterLevel 0.0 (dry, no lakes) to 1.0 (flooded valleys).
+  DayLength is seconds for a full day and night, 60 (frantic) to 1800 (lazy).
+  AmbientLight 0.0 (pitch black nights and caves) to 1.0 (never dark), e.g. 0.05 for a haunted theme.
+  Strata: 1 to 4 underground layers below the surface, top to bottom, each naming a block
+  (dirt, stone, ore or one of your custom blocks) and a thickness of 1 to 8 tiles.
+  Also invent 1 to ${MAX_CUSTOM_BLOCKS} custom blocks that only exist in this biome.
+  Hardness is mining time in seconds, 0.1 (soft) to 5 (very hard); non-solid blocks can be walked through.
+  Spawn: "surface" replaces grass in patches, "underground" forms a layer below the dirt,
+  "canopy" replaces some tree leaves, "ore" appears as veins in stone.
+  Finally add 2 to ${BIOME_LIMITS.mobs} themed creatures, at least one passive and one hostile.
+  Size is height in tiles, 0.5 (tiny) to 2 (huge); speed 0.3 (slow) to 2.5 (faster than the player).
+  Passive creatures wander in daylight, hostile ones come out in the dark and chase the player.
+  Add 1 to ${BIOME_LIMITS.recipes} crafting recipes that put your custom blocks to use. Recipes name blocks
+  as dirt, grass, stone, wood, leaves, ore, torch, planks, stick, workbench, bricks or a custom block name;
+  output count and ingredient counts are 1 to 16, with up to ${BIOME_LIMITS.recipeInputs} ingredients.
+  Set workbench for recipes that should need a workbench nearby.
+  Music sets the mood of the chiptune soundtrack: scale (${MUSIC_SCALES.join(", ")}),
+  tempo in BPM (60 calm to 200 frantic), rootNote as a MIDI note from 45 (low, dark) to 64 (high, bright),
+  lead and bass waveforms (${WAVEFORMS.join(", ")}) and drums from 0.0 (none) to 1.0 (busy).`;
+
+export const BIOME_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    skyColor: { type: Type.STRING, description: "Hex color code for background" },
+    blockColors: {
+      type: Type.OBJECT,
+      properties: {
+        dirt: { type: Type.STRING },
+        grass: { type: Type.STRING },
+        stone: { type: Type.STRING },
+        wood: { type: Type.STRING },
+        leaves: { type: Type.STRING },
+        ore: { type: Type.STRING },
+        water: { type: Type.STRING },
+        lava: { type: Type.STRING },
+      }
+    },
+    gravity: { type: Type.NUMBER },
+    terrainRoughness: { type: Type.NUMBER },
+    treeDensity: { type: Type.NUMBER },
+    caveDensity: { type: Type.NUMBER },
+    oreFrequency: { type: Type.NUMBER },
+    waterLevel: { type: Type.NUMBER },
+    dayLength: { type: Type.NUMBER },
+    ambientLight: { type: Type.NUMBER },
+    strata: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          block: { type: Type.STRING },
+          thickness: { type: Type.NUMBER },
+        },
+        required: ["block", "thickness"],
+      },
+    },
+    customBlocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          color: { type: Type.STRING, description: "Hex color code" },
+          hardness: { type: Type.NUMBER },
+          solid: { type: Type.BOOLEAN },
+          spawn: { type: Type.STRING, enum: SPAWNS },
+        },
+        required: ["name", "color", "hardness", "solid", "spawn"],
+      },
+    },
+    mobs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          color: { type: Type.STRING, description: "Hex color code" },
+          size: { type: Type.NUMBER },
+          speed: { type: Type.NUMBER },
+          hostile: { type: Type.BOOLEAN },
+        },
+        required: ["name", "color", "size", "speed", "hostile"],
+      },
+    },
+    recipes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          output: { type: Type.STRING },
+          count: { type: Type.NUMBER },
+          inputs: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                block: { type: Type.STRING },
+                count: { type: Type.NUMBER },
+              },
+              required: ["block", "count"],
+            },
+          },
+          workbench: { type: Type.BOOLEAN },
+        },
+        required: ["output", "count", "inputs"],
+      },
+    },
+    music: {
+      type: Type.OBJECT,
+      properties: {
+        scale: { type: Type.STRING, enum: [...MUSIC_SCALES] },
+        tempo: { type: Type.NUMBER },
+        rootNote: { type: Type.NUMBER },
+        lead: { type: Type.STRING, enum: [...WAVEFORMS] },
+        bass: { type: Type.STRING, enum: [...WAVEFORMS] },
+        drums: { type: Type.NUMBER },
+      },
+      required: ["scale", "tempo", "rootNote", "lead", "bass", "drums"],
+    },
+  },
+  required: ["name", "skyColor", "blockColors", "gravity", "terrainRoughness", "treeDensity"],
+};
+
+// The schema above in plain JSON Schema form, for providers other than Gemini
+export const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!isObject(schema)) return schema;
+  const converted: JsonObject = {};
+  for (const [key, value] of Object.entries(schema)) {
+    converted[key] = key === "type" ? String(value).toLowerCase() : key === "properties"
+      ? Object.fromEntries(Object.entries(asObject(value)).map(([name, property]) => [name, toJsonSchema(property)]))
+      : toJsonSchema(value);
+  }
+  return converted;
+};
+
+// --- Providers ---
+
+export interface BiomeGenerator {
+  label: string; // Names the provider in logs and error messages
+  offline: boolean; // Answers instantly without a network request
+  // Resolve with a validated biome, or reject; aborting the signal should stop the request
+  generate: (prompt: string, signal: AbortSignal) => Promise<BiomeConfig>;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+export const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000; // Doubles after every failed attempt
+
+export interface GenerateOptions {
+  signal?: AbortSignal; // Cancels the request, generateBiome then rejects
+  onRetry?: (attempt: number, error: BiomeGenerationError) => void; // Called before each retry
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(new BiomeGenerationError("Generation cancelled."));
+  }, { once: true });
+});
+
+// Rate limits, server trouble, timeouts and garbled answers are worth another
+// try; a rejected key or prompt is not
+export const statusError = (label: string, status: number): BiomeGenerationError => {
+  if (status === 429) return new BiomeGenerationError(`${label} is rate limiting requests.`, true);
+  if (status >= 500) return new BiomeGenerationError(`${label} server error (${status}).`, true);
+  if (status === 401 || status === 403) return new BiomeGenerationError(`${label} rejected the API key.`);
+  return new BiomeGenerationError(`${label} rejected the request (${status}).`);
+};
+
+const describeError = (label: string, error: unknown): BiomeGenerationError => {
+  if (error instanceof BiomeGenerationError) return error;
+  const { status, message } = asObject(error);
+  if (typeof status === "number" && status >= 400) return statusError(label, status);
+  return new BiomeGenerationError(`Could not reach ${label}: ${message ?? error}`, true);
+};
+
+const attempt = async (generator: BiomeGenerator, prompt: string, signal?: AbortSignal): Promise<BiomeConfig> => {
+  // Every attempt gets its own timeout, and the caller can cancel any of them
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, REQUEST_TIMEOUT_MS);
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    return await generator.generate(prompt, controller.signal);
+  } catch (error) {
+    if (signal?.aborted) throw new BiomeGenerationError("Generation cancelled.");
+    if (timedOut) throw new BiomeGenerationError(`${generator.label} timed out.`, true);
+    throw describeError(generator.label, error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  }
+};
+
+// Ask the generator for a biome, retrying transient failures with
+// exponential backoff. Rejects with a BiomeGenerationError saying what went wrong.
+export const generateBiome = async (
+  generator: BiomeGenerator,
+  prompt: string,
+  { signal, onRetry }: GenerateOptions = {},
+): Promise<BiomeConfig> => {
+  for (let tries = 1; ; tries++) {
+    try {
+      return await attempt(generator, prompt, signal);
+    } catch (error) {
+      const failure = error as BiomeGenerationError;
+      if (!failure.retryable || tries >= MAX_ATTEMPTS) {
+        console.error(`${generator.label} error:`, error);
+        throw failure;
+      }
+      onRetry?.(tries, failure);
+      await wait(RETRY_DELAY_MS * 2 ** (tries - 1), signal);
+    }
+  }
+};
@@ -0,0 +1,141 @@
+import { BiomeConfig, BlockType } from "../types";
+
+// A full tile of liquid; levels below this are partly filled tiles
+export const MAX_FLUID_LEVEL = 8;
+
+// Brightest light level, for both sunlight and light-emitting blocks
+export const MAX_LIGHT = 15;
+
+// Flow and physics behaviour of a liquid block
+export interface FluidProperties {
+  flowInterval: number; // Simulation ticks between flow steps, higher is more viscous
+  drag: number; // 0..1, fraction of walking speed lost while submerged
+  buoyancy: number; // 0..1, fraction of gravity cancelled while submerged
+}
+
+// Everything the game needs to know about a block type. Physics, mining and
+// rendering all read from here, so a new block is one enum value + one entry.
+export interface BlockDefinition {
+  name: string;
+  color: string; // Used when the biome doesn't recolor the block
+  hardness: number; // Mining time in seconds with bare hands
+  drops: BlockType | null; // What ends up in the inventory when mined
+  solid: boolean; // Blocks movement
+  placeable: boolean; // False for items that only live in the inventory
+  breakable: boolean;
+  replaceable: boolean; // Placing a block simply overwrites it
+  light: number; // Emitted light, 0 (none) to MAX_LIGHT
+  fluid?: FluidProperties; // Set for liquids, which flow and can be swum in
+}
+
+export const BLOCKS: Record<BlockType, BlockDefinition> = {
+  [BlockType.AIR]: {
+    name: "Air", color: "transparent", hardness: 0, drops: null, solid: false, placeable: false, breakable: false, replaceable: true, light: 0,
+  },
+  [BlockType.DIRT]: {
+    name: "Dirt", color: "#8B4513", hardness: 0.4, drops: BlockType.DIRT, solid: true, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+  [BlockType.GRASS]: {
+    name: "Grass", color: "#32CD32", hardness: 0.5, drops: BlockType.DIRT, solid: true, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+  [BlockType.STONE]: {
+    name: "Stone", color: "#808080", hardness: 1.2, drops: BlockType.STONE, solid: true, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+  [BlockType.WOOD]: {
+    name: "Wood", color: "#A0522D", hardness: 0.8, drops: BlockType.WOOD, solid: true, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+  [BlockType.LEAVES]: {
+    name: "Leaves", color: "#228B22", hardness: 0.15, drops: BlockType.LEAVES, solid: false, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+  [BlockType.BEDROCK]: {
+    name: "Bedrock", color: "#2F2F2F", hardness: Infinity, drops: null, solid: true, placeable: true, breakable: false, replaceable: false, light: 0,
+  },
+  [BlockType.ORE]: {
+    name: "Ore", color: "#FFD700", hardness: 2, drops: BlockType.ORE, solid: true, placeable: true, breakable: true, replaceable: false, light: 4,
+  },
+  [BlockType.WATER]: {
+    name: "Water", color: "#3F76E4", hardness: 0, drops: null, solid: false, placeable: true, breakable: false, replaceable: true, light: 0,
+    fluid: { flowInterval: 1, drag: 0.5, buoyancy: 0.7 },
+  },
+  [BlockType.LAVA]: {
+    name: "Lava", color: "#FF5A00", hardness: 0, drops: null, solid: false, placeable: true, breakable: false, replaceable: true, light: 12,
+    fluid: { flowInterval: 4, drag: 0.7, buoyancy: 0.5 },
+  },
+  [BlockType.TORCH]: {
+    name: "Torch", color: "#FFB84D", hardness: 0.05, drops: BlockType.TORCH, solid: false, placeable: true, breakable: true, replaceable: false, light: 14,
+  },
+  [BlockType.PLANKS]: {
+    name: "Planks", color: "#C8A165", hardness: 0.6, drops: BlockType.PLANKS, solid: true, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+  [BlockType.STICK]: {
+    name: "Stick", color: "#7A5230", hardness: 0, drops: null, solid: false, placeable: false, breakable: false, replaceable: true, light: 0,
+  },
+  [BlockType.WORKBENCH]: {
+    name: "Workbench", color: "#9C6B3C", hardness: 0.8, drops: BlockType.WORKBENCH, solid: true, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+  [BlockType.BRICKS]: {
+    name: "Bricks", color: "#A8A29E", hardness: 1.5, drops: BlockType.BRICKS, solid: true, placeable: true, breakable: true, replaceable: false, light: 0,
+  },
+};
+
+// Ids from here on are reserved for biome-specific blocks
+export const CUSTOM_BLOCK_START = 100;
+export const MAX_CUSTOM_BLOCKS = 4;
+
+// Custom blocks of the biome currently being played
+const customBlocks = new Map<number, BlockDefinition>();
+
+export const registerBiomeBlocks = (biome: BiomeConfig) => {
+  customBlocks.clear();
+  for (const block of biome.customBlocks ?? []) {
+    customBlocks.set(block.id, {
+      name: block.name,
+      color: block.color,
+      hardness: block.hardness,
+      drops: block.id,
+      solid: block.solid,
+      placeable: true,
+      breakable: true,
+      replaceable: false,
+      light: 0,
+    });
+  }
+};
+
+// Unknown ids behave like air rather than crashing the game loop
+export const getBlock = (type: number): BlockDefinition =>
+  BLOCKS[type as BlockType] ?? customBlocks.get(type) ?? BLOCKS[BlockType.AIR];
+
+// Stable name used in saves and share codes ("STONE", "CUSTOM_101")
+export const blockKey = (type: number): string => BlockType[type] ?? `CUSTOM_${type}`;
+
+// Inverse of blockKey, unknown names load as air
+export const blockFromKey = (key: string): number => {
+  const custom = /^CUSTOM_(\d+)$/.exec(key);
+  if (custom) {
+    const id = Number(custom[1]);
+    return id >= CUSTOM_BLOCK_START ? id : BlockType.AIR;
+  }
+  // Only names map to ids; "3" would give back the name "STONE"
+  const value: unknown = BlockType[key as keyof typeof BlockType];
+  return typeof value === "number" ? value : BlockType.AIR;
+};
+
+export const isSolid = (type: number) => getBlock(type).solid;
+
+export const isBreakable = (type: number) => getBlock(type).breakable;
+
+export const isReplaceable = (type: number) => getBlock(type).replaceable;
+
+export const isFluid = (type: number) => getBlock(type).fluid !== undefined;
+
+// Air and fluids have no texture tile; the screen draws fluids on top
+export const hasTile = (type: number) => type !== BlockType.AIR && !isFluid(type);
+
+export const isPlaceable = (type: number) => getBlock(type).placeable;
+
+// Milliseconds of holding the mine button needed to break the block
+export const miningDuration = (type: number) => getBlock(type).hardness * 1000;
+
+export const blockColor = (type: number, colors: { [key: number]: string | undefined }) =>
+  colors[type] || getBlock(type).color;
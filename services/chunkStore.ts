@@ -0,0 +1,190 @@
+import { BiomeConfig, BlockType } from "../types";
+import { MAX_FLUID_LEVEL, MAX_LIGHT, hasTile, isFluid } from "./blocks";
+import { CHUNK_HEIGHT, CHUNK_WIDTH, generateChunk } from "./worldGenerator";
+
+// Chunks within this many chunk indices of the player are kept loaded
+const LOAD_RADIUS = 2;
+// Chunks further away than this are dropped from memory
+const UNLOAD_RADIUS = 4;
+
+export interface Chunk {
+  index: number;
+  blocks: number[][]; // [y][localX]
+  levels: number[][]; // Fluid level per tile, 0 for anything that isn't a fluid
+  skyLight: number[][]; // 0..MAX_LIGHT, filled in by services/lighting
+  blockLight: number[][];
+  lit: boolean; // Light has been computed since the chunk was (re)loaded
+  modified: boolean; // Edited by the player, can't simply be regenerated
+  revision: number; // Bumped whenever a block with a tile changes, so renderers know to rebake
+  shadeRevision: number; // Bumped whenever a fluid or the light changes, for the overlay drawn over the tiles
+}
+
+export const chunkIndexOf = (worldX: number) => Math.floor(worldX / CHUNK_WIDTH);
+
+// Fluids in freshly generated chunks start out as full tiles; loaded chunks
+// pass their saved levels (anything missing or out of range is a full tile)
+export const createChunk = (index: number, blocks: number[][], modified: boolean, levels?: number[][]): Chunk => ({
+  index,
+  blocks,
+  levels: blocks.map((row, y) => row.map((block, x) =>
+    isFluid(block) ? Math.min(MAX_FLUID_LEVEL, levels?.[y]?.[x] || MAX_FLUID_LEVEL) : 0)),
+  skyLight: blocks.map(row => row.map(() => 0)),
+  blockLight: blocks.map(row => row.map(() => 0)),
+  lit: false,
+  modified,
+  revision: 0,
+  shadeRevision: 0,
+});
+
+// Horizontally infinite world made of CHUNK_WIDTH x CHUNK_HEIGHT chunks keyed by
+// chunk index. Chunks are generated on demand, unmodified ones are thrown away
+// when far from the player (they regenerate identically from the seed) and
+// modified ones are parked until the player comes back.
+export class ChunkStore {
+  private loaded = new Map<number, Chunk>();
+  private parked = new Map<number, Chunk>();
+  // Columns whose blocks changed since the last takeChangedColumns()
+  private changedColumns = new Set<number>();
+  // Tiles whose block or fluid level changed since the last
+  // takeChangedTiles(), collected once something has asked for them
+  private changedTiles: Map<string, { x: number; y: number }> | null = null;
+
+  constructor(private biome: BiomeConfig) {}
+
+  getChunk(index: number): Chunk {
+    let chunk = this.loaded.get(index);
+    if (!chunk) {
+      chunk = this.parked.get(index);
+      if (chunk) {
+        // Neighbours may have changed while it was parked
+        this.parked.delete(index);
+        chunk.lit = false;
+      } else {
+        chunk = createChunk(index, generateChunk(this.biome, index), false);
+      }
+      this.loaded.set(index, chunk);
+    }
+    return chunk;
+  }
+
+  getBlock(x: number, y: number): number {
+    if (y < 0) return BlockType.AIR;
+    if (y >= CHUNK_HEIGHT) return BlockType.BEDROCK;
+    const index = chunkIndexOf(x);
+    return this.getChunk(index).blocks[y][x - index * CHUNK_WIDTH];
+  }
+
+  getLevel(x: number, y: number): number {
+    if (y < 0 || y >= CHUNK_HEIGHT) return 0;
+    const index = chunkIndexOf(x);
+    return this.getChunk(index).levels[y][x - index * CHUNK_WIDTH];
+  }
+
+  // Fluids placed without a level are full tiles
+  setBlock(x: number, y: number, type: number, level = isFluid(type) ? MAX_FLUID_LEVEL : 0) {
+    this.flowBlock(x, y, type, level);
+    if (y >= 0 && y < CHUNK_HEIGHT) this.getChunk(chunkIndexOf(x)).modified = true;
+  }
+
+  // Writes from the fluid automaton. They don't mark the chunk modified, so a
+  // chunk where water merely flows is still regenerated rather than saved.
+  flowBlock(x: number, y: number, type: number, level = isFluid(type) ? MAX_FLUID_LEVEL : 0) {
+    if (y < 0 || y >= CHUNK_HEIGHT) return;
+    const index = chunkIndexOf(x);
+    const chunk = this.getChunk(index);
+    const previous = chunk.blocks[y][x - index * CHUNK_WIDTH];
+    if (previous !== type) {
+      this.changedColumns.add(x);
+      // Fluid flowing into air leaves the baked tiles as they were
+      if (hasTile(previous) || hasTile(type)) chunk.revision++;
+    }
+    if (previous !== type || chunk.levels[y][x - index * CHUNK_WIDTH] !== level) {
+      this.changedTiles?.set(`${x},${y}`, { x, y });
+      if (isFluid(previous) || isFluid(type)) chunk.shadeRevision++;
+    }
+    chunk.blocks[y][x - index * CHUNK_WIDTH] = type;
+    chunk.levels[y][x - index * CHUNK_WIDTH] = level;
+  }
+
+  flowLevel(x: number, y: number, level: number) {
+    if (y < 0 || y >= CHUNK_HEIGHT) return;
+    const index = chunkIndexOf(x);
+    const chunk = this.getChunk(index);
+    if (chunk.levels[y][x - index * CHUNK_WIDTH] !== level) {
+      this.changedTiles?.set(`${x},${y}`, { x, y });
+      chunk.shadeRevision++;
+    }
+    chunk.levels[y][x - index * CHUNK_WIDTH] = level;
+  }
+
+  // Light is stored per tile but isn't part of the world's saved state
+  getSkyLight(x: number, y: number): number {
+    if (y < 0) return MAX_LIGHT;
+    if (y >= CHUNK_HEIGHT) return 0;
+    const index = chunkIndexOf(x);
+    return this.getChunk(index).skyLight[y][x - index * CHUNK_WIDTH];
+  }
+
+  getBlockLight(x: number, y: number): number {
+    if (y < 0 || y >= CHUNK_HEIGHT) return 0;
+    const index = chunkIndexOf(x);
+    return this.getChunk(index).blockLight[y][x - index * CHUNK_WIDTH];
+  }
+
+  setLight(x: number, y: number, sky: number, block: number) {
+    if (y < 0 || y >= CHUNK_HEIGHT) return;
+    const index = chunkIndexOf(x);
+    const chunk = this.getChunk(index);
+    const localX = x - index * CHUNK_WIDTH;
+    if (chunk.skyLight[y][localX] === sky && chunk.blockLight[y][localX] === block) return;
+    chunk.skyLight[y][localX] = sky;
+    chunk.blockLight[y][localX] = block;
+    chunk.shadeRevision++;
+  }
+
+  // Columns whose blocks changed since the last call
+  takeChangedColumns(): number[] {
+    const columns = [...this.changedColumns];
+    this.changedColumns.clear();
+    return columns;
+  }
+
+  // Tiles changed since the last call. The first call only starts collecting.
+  takeChangedTiles(): { x: number; y: number }[] {
+    const tiles = [...(this.changedTiles?.values() ?? [])];
+    this.changedTiles = new Map();
+    return tiles;
+  }
+
+  // Every chunk the player has edited, loaded or not
+  modifiedChunks(): Chunk[] {
+    const chunks = [...this.parked.values()];
+    for (const chunk of this.loaded.values()) {
+      if (chunk.modified) chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  // Replace chunks with previously saved ones
+  restoreChunks(chunks: Chunk[]) {
+    for (const chunk of chunks) {
+      this.loaded.delete(chunk.index);
+      this.parked.set(chunk.index, chunk);
+    }
+  }
+
+  // Stream chunks around the given world columns (one per player)
+  update(...columns: number[]) {
+    const centers = columns.map(chunkIndexOf);
+    for (const center of centers) {
+      for (let i = center - LOAD_RADIUS; i <= center + LOAD_RADIUS; i++) {
+        this.getChunk(i);
+      }
+    }
+    for (const [index, chunk] of this.loaded) {
+      if (centers.some(center => Math.abs(index - center) <= UNLOAD_RADIUS)) continue;
+      this.loaded.delete(index);
+      if (chunk.modified) this.parked.set(index, chunk);
+    }
+  }
+}
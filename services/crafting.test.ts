@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { BlockType, Inventory, Recipe } from "../types";
+import { craft, hasIngredients } from "./crafting";
+
+const PLANKS: Recipe = { output: { block: BlockType.PLANKS, count: 4 }, inputs: [{ block: BlockType.WOOD, count: 1 }] };
+
+// Biome recipes may list the same block twice
+const DOUBLE_DIRT: Recipe = {
+  output: { block: BlockType.STONE, count: 1 },
+  inputs: [{ block: BlockType.DIRT, count: 2 }, { block: BlockType.DIRT, count: 2 }],
+};
+
+describe("craft", () => {
+  it("swaps the ingredients for the output", () => {
+    const inventory: Inventory = { [BlockType.WOOD]: 2 };
+    expect(craft(inventory, PLANKS)).toBe(true);
+    expect(inventory).toEqual({ [BlockType.WOOD]: 1, [BlockType.PLANKS]: 4 });
+  });
+
+  it("leaves the inventory alone when something is missing", () => {
+    const inventory: Inventory = { [BlockType.DIRT]: 1 };
+    expect(craft(inventory, PLANKS)).toBe(false);
+    expect(inventory).toEqual({ [BlockType.DIRT]: 1 });
+  });
+
+  it("adds up a block listed more than once", () => {
+    const short: Inventory = { [BlockType.DIRT]: 3 };
+    expect(hasIngredients(short, DOUBLE_DIRT)).toBe(false);
+    expect(craft(short, DOUBLE_DIRT)).toBe(false);
+    expect(short).toEqual({ [BlockType.DIRT]: 3 });
+
+    const enough: Inventory = { [BlockType.DIRT]: 4 };
+    expect(craft(enough, DOUBLE_DIRT)).toBe(true);
+    expect(enough).toEqual({ [BlockType.STONE]: 1 });
+  });
+});
@@ -0,0 +1,54 @@
+import { BiomeConfig, BlockType, Inventory, Recipe } from "../types";
+import { ChunkStore } from "./chunkStore";
+import { addItem, countOf, removeItem } from "./inventory";
+
+// Crafting turns inventory items into other items. Recipes are plain data so
+// biomes can bring their own alongside the built-in ones.
+
+export const RECIPES: Recipe[] = [
+  { output: { block: BlockType.PLANKS, count: 4 }, inputs: [{ block: BlockType.WOOD, count: 1 }] },
+  { output: { block: BlockType.STICK, count: 4 }, inputs: [{ block: BlockType.PLANKS, count: 2 }] },
+  {
+    output: { block: BlockType.TORCH, count: 4 },
+    inputs: [{ block: BlockType.STICK, count: 1 }, { block: BlockType.ORE, count: 1 }],
+  },
+  { output: { block: BlockType.WORKBENCH, count: 1 }, inputs: [{ block: BlockType.PLANKS, count: 4 }] },
+  {
+    output: { block: BlockType.BRICKS, count: 4 },
+    inputs: [{ block: BlockType.STONE, count: 4 }],
+    station: BlockType.WORKBENCH,
+  },
+];
+
+// Stations work when they're within this many tiles of the player
+const STATION_RANGE = 3;
+
+export const biomeRecipes = (biome: BiomeConfig) => [...RECIPES, ...(biome.recipes ?? [])];
+
+// How many of each block a recipe takes. A block may be listed more than once.
+const ingredientTotals = (recipe: Recipe) => {
+  const totals = new Map<number, number>();
+  for (const input of recipe.inputs) totals.set(input.block, (totals.get(input.block) ?? 0) + input.count);
+  return totals;
+};
+
+export const hasIngredients = (inventory: Inventory, recipe: Recipe) =>
+  [...ingredientTotals(recipe)].every(([block, count]) => countOf(inventory, block) >= count);
+
+export const stationNearby = (world: ChunkStore, station: number, x: number, y: number) => {
+  for (let dy = -STATION_RANGE; dy <= STATION_RANGE; dy++) {
+    for (let dx = -STATION_RANGE; dx <= STATION_RANGE; dx++) {
+      if (world.getBlock(x + dx, y + dy) === station) return true;
+    }
+  }
+  return false;
+};
+
+// Swap the ingredients for the output. Returns false (and leaves the
+// inventory alone) if anything is missing.
+export const craft = (inventory: Inventory, recipe: Recipe) => {
+  if (!hasIngredients(inventory, recipe)) return false;
+  for (const [block, count] of ingredientTotals(recipe)) removeItem(inventory, block, count);
+  addItem(inventory, recipe.output.block, recipe.output.count);
+  return true;
+};
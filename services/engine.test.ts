@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import { BlockType, DEFAULT_BIOME, InputState } from "../types";
+import { GameEngine, GameEvent, HURT_COOLDOWN_MS, PLAYER_WIDTH, STEP_MS } from "./engine";
+import { createInputState } from "./input";
+import { countOf } from "./inventory";
+import { TILE_SIZE } from "./worldGenerator";
+
+// The engine runs on a flat stone floor cleared out of the default biome, with
+// the player standing on it at column 0
+
+const FLOOR = 20; // Row of the floor's top
+
+const flatWorld = () => {
+  const engine = new GameEngine(DEFAULT_BIOME);
+  for (let x = -20; x <= 20; x++) {
+    for (let y = 0; y < FLOOR + 4; y++) engine.world.setBlock(x, y, y < FLOOR ? BlockType.AIR : BlockType.STONE);
+  }
+  const [player] = engine.players;
+  player.state = { ...player.state, x: TILE_SIZE * 0.5, y: FLOOR * TILE_SIZE };
+  return { engine, player };
+};
+
+const held = (actions: Partial<InputState> = {}): InputState => ({ ...createInputState(), ...actions });
+
+// Simulates `ms` at 60 frames a second, collecting the events. Mobs are
+// cleared as they spawn so they don't get in the way.
+const run = (engine: GameEngine, input: InputState, ms: number): GameEvent[] => {
+  const events: GameEvent[] = [];
+  for (let t = 0; t < ms; t += STEP_MS) {
+    engine.step([input], STEP_MS);
+    engine.mobs = [];
+    events.push(...engine.takeEvents());
+  }
+  return events;
+};
+
+// Centre of a tile, for aiming with the pointer
+const tileCentre = (x: number, y: number) => ({ x: (x + 0.5) * TILE_SIZE, y: (y + 0.5) * TILE_SIZE });
+
+describe("fixed timestep", () => {
+  it("simulates the same time whatever the frame rate", () => {
+    const slow = flatWorld();
+    const fast = flatWorld();
+    for (let frame = 0; frame < 30; frame++) slow.engine.step([held({ right: true })], 1000 / 30);
+    for (let frame = 0; frame < 144; frame++) fast.engine.step([held({ right: true })], 1000 / 144);
+    expect(Math.abs(slow.engine.time - fast.engine.time)).toBeLessThanOrEqual(STEP_MS);
+    expect(Math.abs(slow.player.state.x - fast.player.state.x)).toBeLessThanOrEqual(2);
+  });
+
+  it("doesn't try to catch up on a long pause", () => {
+    const { engine } = flatWorld();
+    engine.step([held()], 10000);
+    expect(engine.time).toBeLessThanOrEqual(250);
+  });
+});
+
+describe("collision", () => {
+  it("lands on the ground and stays there", () => {
+    const { engine, player } = flatWorld();
+    player.state.y = (FLOOR - 5) * TILE_SIZE;
+    run(engine, held(), 1000);
+    expect(player.onGround).toBe(true);
+    expect(player.state.y).toBe(FLOOR * TILE_SIZE);
+    expect(player.state.vy).toBe(0);
+  });
+
+  it("stops at walls", () => {
+    const { engine, player } = flatWorld();
+    for (let y = FLOOR - 3; y < FLOOR; y++) engine.world.setBlock(3, y, BlockType.STONE);
+    run(engine, held({ right: true }), 2000);
+    expect(player.state.x + PLAYER_WIDTH / 2).toBeLessThanOrEqual(3 * TILE_SIZE);
+    expect(player.state.x).toBeGreaterThan(2 * TILE_SIZE);
+  });
+});
+
+describe("jumping", () => {
+  it("jumps off the ground and comes back down", () => {
+    const { engine, player } = flatWorld();
+    run(engine, held(), 100);
+    const events = run(engine, held({ up: true }), STEP_MS);
+    expect(events).toContainEqual({ type: "jump" });
+    expect(player.state.vy).toBeLessThan(0);
+
+    let highest = player.state.y;
+    for (let t = 0; t < 1500; t += STEP_MS) {
+      run(engine, held(), STEP_MS);
+      highest = Math.min(highest, player.state.y);
+    }
+    expect(FLOOR * TILE_SIZE - highest).toBeGreaterThan(TILE_SIZE);
+    expect(player.state.y).toBe(FLOOR * TILE_SIZE);
+    expect(player.onGround).toBe(true);
+  });
+
+  it("can't jump in mid-air", () => {
+    const { engine, player } = flatWorld();
+    player.state.y = (FLOOR - 15) * TILE_SIZE;
+    run(engine, held(), 300);
+    expect(run(engine, held({ up: true }), 100)).not.toContainEqual({ type: "jump" });
+  });
+});
+
+describe("mining", () => {
+  it("breaks a block after its mining time and collects the drop", () => {
+    const { engine, player } = flatWorld();
+    engine.world.setBlock(1, FLOOR - 1, BlockType.DIRT);
+    player.pointer = tileCentre(1, FLOOR - 1);
+    const before = countOf(player.inventory, BlockType.DIRT);
+
+    run(engine, held({ actionA: true }), 300); // Dirt takes 400ms
+    expect(engine.world.getBlock(1, FLOOR - 1)).toBe(BlockType.DIRT);
+    expect(engine.miningProgress(player)).toBeGreaterThan(0.5);
+
+    const events = run(engine, held({ actionA: true }), 200);
+    expect(engine.world.getBlock(1, FLOOR - 1)).toBe(BlockType.AIR);
+    expect(countOf(player.inventory, BlockType.DIRT)).toBe(before + 1);
+    expect(events).toContainEqual({ type: "mine", player: 0, block: BlockType.DIRT, x: 1, y: FLOOR - 1 });
+  });
+
+  it("starts over when the button is let go", () => {
+    const { engine, player } = flatWorld();
+    engine.world.setBlock(1, FLOOR - 1, BlockType.DIRT);
+    player.pointer = tileCentre(1, FLOOR - 1);
+    run(engine, held({ actionA: true }), 300);
+    run(engine, held(), STEP_MS);
+    run(engine, held({ actionA: true }), 300);
+    expect(engine.world.getBlock(1, FLOOR - 1)).toBe(BlockType.DIRT);
+  });
+
+  it("can't break bedrock", () => {
+    const { engine, player } = flatWorld();
+    engine.world.setBlock(1, FLOOR - 1, BlockType.BEDROCK);
+    player.pointer = tileCentre(1, FLOOR - 1);
+    run(engine, held({ actionA: true }), 3000);
+    expect(engine.world.getBlock(1, FLOOR - 1)).toBe(BlockType.BEDROCK);
+  });
+});
+
+describe("placing", () => {
+  const withDirt = () => {
+    const world = flatWorld();
+    world.player.inventory[BlockType.DIRT] = 3;
+    world.player.state.selectedBlock = BlockType.DIRT;
+    return world;
+  };
+
+  it("places the selected block and uses one up", () => {
+    const { engine, player } = withDirt();
+    player.pointer = tileCentre(2, FLOOR - 1);
+    const events = run(engine, held({ actionB: true }), STEP_MS);
+    expect(engine.world.getBlock(2, FLOOR - 1)).toBe(BlockType.DIRT);
+    expect(countOf(player.inventory, BlockType.DIRT)).toBe(2);
+    expect(events).toContainEqual({ type: "place", player: 0, block: BlockType.DIRT, x: 2, y: FLOOR - 1 });
+  });
+
+  it("won't put a solid block inside the player", () => {
+    const { engine, player } = withDirt();
+    player.pointer = tileCentre(0, FLOOR - 1);
+    run(engine, held({ actionB: true }), 500);
+    expect(engine.world.getBlock(0, FLOOR - 1)).toBe(BlockType.AIR);
+    expect(countOf(player.inventory, BlockType.DIRT)).toBe(3);
+  });
+
+  it("won't place out of reach", () => {
+    const { engine, player } = withDirt();
+    player.pointer = tileCentre(10, FLOOR - 1);
+    run(engine, held({ actionB: true }), 500);
+    expect(player.target).toBeNull();
+    expect(engine.world.getBlock(10, FLOOR - 1)).toBe(BlockType.AIR);
+  });
+
+  it("waits between blocks while the button is held", () => {
+    const { engine, player } = withDirt();
+    player.pointer = tileCentre(2, FLOOR - 1);
+    run(engine, held({ actionB: true }), STEP_MS);
+    player.pointer = tileCentre(2, FLOOR - 2);
+    run(engine, held({ actionB: true }), 100);
+    expect(engine.world.getBlock(2, FLOOR - 2)).toBe(BlockType.AIR);
+    run(engine, held({ actionB: true }), 200);
+    expect(engine.world.getBlock(2, FLOOR - 2)).toBe(BlockType.DIRT);
+  });
+});
+
+describe("crafting", () => {
+  it("wraps around the recipe list both ways", () => {
+    const { engine, player } = flatWorld();
+    player.crafting = { selected: 0 };
+    run(engine, held({ up: true }), STEP_MS);
+    expect(player.crafting.selected).toBe(engine.recipes.length - 1);
+    run(engine, held(), STEP_MS);
+    run(engine, held({ down: true }), STEP_MS);
+    expect(player.crafting.selected).toBe(0);
+  });
+});
+
+describe("co-op", () => {
+  it("recovers from a hit while in the crafting menu", () => {
+    const { engine } = flatWorld();
+    const partner = engine.join();
+    partner.crafting = { selected: 0 };
+    partner.hurtTime = HURT_COOLDOWN_MS;
+    for (let t = 0; t <= HURT_COOLDOWN_MS; t += STEP_MS) engine.step([held(), held()], STEP_MS);
+    expect(partner.crafting).not.toBeNull();
+    expect(partner.hurtTime).toBe(0);
+  });
+});
+
+describe("online guest", () => {
+  it("leaves fluids and mobs to the host", () => {
+    const { engine } = flatWorld();
+    engine.authoritative = false;
+    engine.world.setBlock(5, FLOOR - 5, BlockType.WATER);
+    for (let t = 0; t < 2000; t += STEP_MS) engine.step([held()], STEP_MS);
+    expect(engine.world.getBlock(5, FLOOR - 5)).toBe(BlockType.WATER);
+    expect(engine.mobs).toEqual([]);
+
+    engine.authoritative = true;
+    run(engine, held(), 500);
+    expect(engine.world.getBlock(5, FLOOR - 5)).toBe(BlockType.AIR);
+  });
+});
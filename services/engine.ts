@@ -0,0 +1,619 @@
+import { BiomeConfig, BlockType, InputState, Inventory, PlayerState, Recipe } from "../types";
+import { CHUNK_HEIGHT, MAX_HEALTH, MAX_HUNGER, TILE_SIZE, createSpawnPlayer } from "./worldGenerator";
+import { ChunkStore, chunkIndexOf } from "./chunkStore";
+import { GameSnapshot, SavedGame, deserializeChunks, deserializeInventory } from "./saveStore";
+import { getBlock, isBreakable, isPlaceable, isReplaceable, isSolid, miningDuration, registerBiomeBlocks } from "./blocks";
+import { FLUID_TICK_MS, stepFluids } from "./fluids";
+import { addItem, countOf, createStartingInventory, hotbarBlocks, nextHotbarBlock, removeItem } from "./inventory";
+import { daylight, timeOfDay, updateLighting } from "./lighting";
+import { JUMP_SPEED, overlapsTile, segmentHitsBody, stepBody } from "./physics";
+import { Mob, biomeMobs, canSpawnIn, createMob, hurtMob, standingSpots, updateMob } from "./entities";
+import { biomeRecipes, craft, hasIngredients, stationNearby } from "./crafting";
+import { createInputState } from "./input";
+
+// The game simulation, free of React and the canvas so it can run headless.
+// Velocities are in pixels per step and the physics constants were tuned at
+// 60 steps per second, so the simulation always advances in STEP_MS slices
+// no matter how often the display refreshes.
+
+export const STEP_MS = 1000 / 60;
+// Longest stretch of time simulated in one go (e.g. after a background tab)
+const MAX_CATCH_UP_MS = 250;
+
+export const PLAYER_WIDTH = TILE_SIZE * 0.6;
+export const PLAYER_HEIGHT = TILE_SIZE * 1.6;
+const PLAYER_SIZE = { width: PLAYER_WIDTH, height: PLAYER_HEIGHT };
+
+const PLACE_COOLDOWN = 200; // ms between placed blocks
+const FLUID_SIM_RADIUS = 24; // Fluids only flow within this many columns of the player
+const WALK_SPEED = 2;
+const COYOTE_MS = 100; // Jumping still works this long after walking off a ledge
+const REACH = TILE_SIZE * 4; // How far from the player's centre blocks can be mined or placed
+
+const MAX_MOBS = 6;
+const SPAWN_INTERVAL = 1000; // ms between spawn attempts
+const SPAWN_MIN_TILES = 12; // Mobs appear off screen...
+const SPAWN_MAX_TILES = 28; // ...but within the lit chunks
+const DESPAWN_DISTANCE = TILE_SIZE * 48;
+const MOB_ATTACK_MS = 1000; // Time between a hostile mob's hits
+const PUNCH_DAMAGE = 1;
+const KNEE_DROP = PLAYER_HEIGHT * 0.35; // Chest to knee height
+
+const SAFE_FALL = TILE_SIZE * 3.5; // Falls up to this high never hurt...
+const FALL_DAMAGE_PER = TILE_SIZE; // ...above it every tile costs half a heart
+export const HURT_COOLDOWN_MS = 500; // Damage taken this soon after a hit is ignored
+const LAVA_DAMAGE = 4;
+const HUNGER_MS = 30000; // Time to lose one hunger point
+const HUNGER_HEAL_MIN = 16; // Health regenerates while hunger is at least this
+const HEALTH_TICK_MS = 4000; // Between regenerating or starving half hearts
+const FOOD_PER_SIZE = 6; // Hunger restored by a passive mob, per tile of its size
+const LAND_SOUND_SPEED = 2; // Slower touchdowns (stepping off a block) make no sound
+
+// Things that happened during a step, for the sound effects and the network
+// session. The screen collects them after each frame with takeEvents().
+export type GameEvent =
+  | { type: "jump" }
+  | { type: "land"; impact: number } // Speed the player hit the ground at
+  | { type: "mine"; player: number; block: number; x: number; y: number } // `player` is the Player's index
+  | { type: "place"; player: number; block: number; x: number; y: number }
+  | { type: "hurt" }
+  | { type: "craft"; ok: boolean }
+  | { type: "menu" }; // Crafting menu opened, closed or scrolled
+
+// Everything the engine tracks for one player. A co-op game has two of them
+// in the same world, each with their own inventory, aim and menus.
+export class Player {
+  state: PlayerState = createSpawnPlayer();
+  inventory: Inventory = createStartingInventory();
+  mining: { x: number; y: number; start: number } | null = null;
+  pointer: { x: number; y: number } | null = null; // World position aimed at with the mouse / a tap
+  target: { x: number; y: number } | null = null; // Tile that mining and placing act on
+  onGround = false;
+  dead = false;
+  hurtTime = 0; // ms until the player can be hurt again
+  crafting: { selected: number } | null = null; // Open crafting menu and the highlighted recipe
+
+  // Engine bookkeeping
+  lastPlaceTime = -Infinity;
+  lastGroundTime = -Infinity;
+  previous: InputState = createInputState(); // Input of the last step, to spot new presses
+  hungerTime = 0;
+  healthTime = 0;
+  safeLanding = true; // The drop in after spawning or loading doesn't hurt
+
+  constructor(readonly index: number) {}
+}
+
+// Stands in for a player nobody is controlling
+const IDLE: InputState = createInputState();
+
+// Column ranges `radius` either side of each column, overlapping ones merged
+const columnSpans = (columns: number[], radius: number): [number, number][] => {
+  const spans: [number, number][] = [];
+  for (const column of [...columns].sort((a, b) => a - b)) {
+    const last = spans[spans.length - 1];
+    if (last && column - radius <= last[1] + 1) {
+      last[1] = column + radius;
+    } else {
+      spans.push([column - radius, column + radius]);
+    }
+  }
+  return spans;
+};
+
+export class GameEngine {
+  world: ChunkStore;
+  players: Player[] = [new Player(0)]; // Player one first; saves only hold them
+  reach = REACH;
+  mobs: Mob[] = [];
+  // Online, only the host runs fluids and mobs; a guest's come from the host
+  authoritative = true;
+  remoteColumns: number[] = []; // Host: where its guests are, so the world runs around them too
+  recipes: Recipe[];
+  time = 0; // Simulated milliseconds
+
+  private accumulator = 0;
+  private spawnTime = 0;
+  private nextMobId = 1;
+  private fluidTime = 0;
+  private fluidTick = 0;
+  private events: GameEvent[] = [];
+
+  constructor(readonly biome: BiomeConfig, private onLog: (msg: string) => void = () => {}) {
+    registerBiomeBlocks(biome);
+    this.world = new ChunkStore(biome);
+    this.recipes = biomeRecipes(biome);
+  }
+
+  // Restore a saved game on top of the (re-generated) world. A co-op partner
+  // joins again next to player one.
+  load(save: SavedGame) {
+    this.world = new ChunkStore(this.biome);
+    this.world.restoreChunks(deserializeChunks(save.palette, save.chunks));
+    const player = new Player(0);
+    player.state = { ...save.player };
+    player.inventory = deserializeInventory(save.inventory);
+    player.dead = player.state.health <= 0;
+    const partners = this.players.length - 1;
+    this.players = [player];
+    for (let i = 0; i < partners; i++) this.join();
+    this.mobs = [];
+  }
+
+  // Add a co-op player next to player one, with a starting inventory
+  join(): Player {
+    const player = new Player(this.players.length);
+    const { x, y } = this.players[0].state;
+    player.state = { ...player.state, x, y };
+    this.players.push(player);
+    this.onLog(`Player ${player.index + 1} joined.`);
+    return player;
+  }
+
+  // Back to a single player
+  leave() {
+    if (this.players.length > 1) this.onLog("Player 2 left.");
+    this.players = this.players.slice(0, 1);
+  }
+
+  // Back to the spawn point with full health and hunger. The inventory is kept.
+  respawn(player: Player) {
+    player.state = { ...createSpawnPlayer(), selectedBlock: player.state.selectedBlock };
+    player.dead = false;
+    player.hurtTime = 0;
+    player.mining = null;
+    player.safeLanding = true;
+    // Mobs stay around while someone else is still fighting them
+    if (this.players.every(other => other === player || other.dead)) this.mobs = [];
+  }
+
+  snapshot(): GameSnapshot {
+    const [player] = this.players;
+    return {
+      biome: this.biome,
+      player: player.state,
+      inventory: player.inventory,
+      chunks: this.world.modifiedChunks(),
+    };
+  }
+
+  // Advance the game by `dt` real milliseconds, in whole fixed steps, with
+  // one input per player. Leftover time carries over to the next call.
+  step(inputs: InputState[], dt: number) {
+    this.accumulator = Math.min(this.accumulator + dt, MAX_CATCH_UP_MS);
+    while (this.accumulator >= STEP_MS) {
+      this.tick(inputs);
+      this.accumulator -= STEP_MS;
+    }
+  }
+
+  // Events since the last call, oldest first
+  takeEvents(): GameEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  // Where the player is aiming: the pointer if there is one, otherwise the
+  // tile next to them in the direction held on the d-pad. Up / Down aim
+  // vertically, or diagonally together with Left / Right; with neither
+  // the aim is straight ahead at chest height.
+  private aimPoint(player: Player, input: InputState) {
+    const { state } = player;
+    if (player.pointer) return player.pointer;
+    const vertical = input.up ? -1 : input.down ? 1 : 0;
+    const horizontal = vertical !== 0 && !input.left && !input.right ? 0 : state.facingRight ? 1 : -1;
+    return {
+      x: state.x + horizontal * TILE_SIZE * 1.5,
+      y: state.y - PLAYER_HEIGHT * 0.5 + vertical * (PLAYER_HEIGHT + TILE_SIZE) * 0.5,
+    };
+  }
+
+  // Whether a player, a mob or one of `others` (e.g. online guests) is in the tile
+  occupied(x: number, y: number, others: PlayerState[] = []) {
+    const bodies = [...this.players.map(player => player.state), ...others];
+    return bodies.some(body => overlapsTile(body, PLAYER_SIZE, x, y)) || this.mobs.some(mob => overlapsTile(mob, mob, x, y));
+  }
+
+  // The tile under the aim point, or the first block in the way if the line
+  // from the player's centre to it is obstructed. Null when out of reach.
+  private findTarget(player: Player, input: InputState) {
+    const fromX = player.state.x;
+    const fromY = player.state.y - PLAYER_HEIGHT * 0.5;
+    const aim = this.aimPoint(player, input);
+    const dx = aim.x - fromX;
+    const dy = aim.y - fromY;
+    if (Math.hypot(dx, dy) > this.reach) return null;
+
+    // Walk the tiles along the line (Amanatides & Woo grid traversal)
+    let x = Math.floor(fromX / TILE_SIZE);
+    let y = Math.floor(fromY / TILE_SIZE);
+    const endX = Math.floor(aim.x / TILE_SIZE);
+    const endY = Math.floor(aim.y / TILE_SIZE);
+    const stepX = Math.sign(dx);
+    const stepY = Math.sign(dy);
+    const deltaX = Math.abs(TILE_SIZE / dx);
+    const deltaY = Math.abs(TILE_SIZE / dy);
+    let maxX = stepX > 0 ? ((x + 1) * TILE_SIZE - fromX) / dx : stepX < 0 ? (x * TILE_SIZE - fromX) / dx : Infinity;
+    let maxY = stepY > 0 ? ((y + 1) * TILE_SIZE - fromY) / dy : stepY < 0 ? (y * TILE_SIZE - fromY) / dy : Infinity;
+    for (let steps = Math.abs(endX - x) + Math.abs(endY - y); steps > 1; steps--) {
+      if (maxX < maxY) {
+        x += stepX;
+        maxX += deltaX;
+      } else {
+        y += stepY;
+        maxY += deltaY;
+      }
+      if (!isReplaceable(this.world.getBlock(x, y))) return { x, y };
+    }
+    return { x: endX, y: endY };
+  }
+
+  // 0 = sunrise, 0.25 = noon, 0.5 = sunset, 0.75 = midnight
+  timeOfDay() {
+    return timeOfDay(this.time, this.biome.dayLength);
+  }
+
+  // 0..1 progress of the block the player is currently mining
+  miningProgress(player: Player) {
+    if (!player.mining) return 0;
+    const block = this.world.getBlock(player.mining.x, player.mining.y);
+    return Math.min(1, (this.time - player.mining.start) / miningDuration(block));
+  }
+
+  // Can the player craft the recipe right now?
+  canCraft(player: Player, recipe: Recipe) {
+    return hasIngredients(player.inventory, recipe) &&
+      (recipe.station === undefined || this.stationInRange(player, recipe.station));
+  }
+
+  private stationInRange(player: Player, station: number) {
+    const { state } = player;
+    return stationNearby(this.world, station, Math.floor(state.x / TILE_SIZE), Math.floor((state.y - PLAYER_HEIGHT / 2) / TILE_SIZE));
+  }
+
+  private pressed(player: Player, input: InputState, action: keyof InputState) {
+    return input[action] && !player.previous[action];
+  }
+
+  // Messages about one player say which one once there are two
+  private log(player: Player, message: string) {
+    this.onLog(this.players.length > 1 ? `P${player.index + 1}: ${message}` : message);
+  }
+
+  // One fixed simulation step. Each player can be on the death screen or in
+  // the crafting menu on their own; the world only stands still while all
+  // of them are.
+  private tick(inputs: InputState[]) {
+    const playing = this.players.filter(player => !player.dead && !player.crafting);
+    for (const player of this.players) {
+      const input = inputs[player.index] ?? IDLE;
+      if (player.dead) {
+        if (this.pressed(player, input, "actionA")) this.respawn(player);
+      } else if (player.crafting) {
+        this.navigateCrafting(player, input, player.crafting);
+      }
+    }
+    if (playing.length > 0) this.simulate(playing, inputs);
+    for (const player of this.players) player.previous = { ...(inputs[player.index] ?? IDLE) };
+  }
+
+  private simulate(playing: Player[], inputs: InputState[]) {
+    this.time += STEP_MS;
+    const { world } = this;
+
+    // Stream chunks around every player, the online host's guests included
+    const columns = [...this.players.map(player => Math.floor(player.state.x / TILE_SIZE)), ...this.remoteColumns];
+    world.update(...columns);
+
+    // --- Fluids ---
+    if (this.authoritative) this.fluidTime += STEP_MS;
+    while (this.fluidTime >= FLUID_TICK_MS) {
+      // Players close together share one range so no column flows twice
+      for (const [from, to] of columnSpans(columns, FLUID_SIM_RADIUS)) stepFluids(world, from, to, this.fluidTick);
+      this.fluidTick++;
+      this.fluidTime -= FLUID_TICK_MS;
+    }
+
+    // Mobs still go for a player in the crafting menu, so they recover from
+    // hits there too
+    for (const player of this.players) {
+      if (!player.dead) player.hurtTime = Math.max(0, player.hurtTime - STEP_MS);
+    }
+    for (const player of playing) {
+      this.move(player, inputs[player.index] ?? IDLE);
+      this.updateSurvival(player);
+    }
+    if (this.authoritative) this.updateMobs();
+    for (const player of playing) {
+      const input = inputs[player.index] ?? IDLE;
+      player.target = this.findTarget(player, input);
+      this.act(player, input);
+      this.cycleHotbar(player, input);
+      if (this.pressed(player, input, "select")) {
+        player.crafting = { selected: 0 };
+        player.mining = null;
+        this.events.push({ type: "menu" });
+      }
+    }
+
+    for (const column of columns) updateLighting(world, column);
+  }
+
+  private move(player: Player, input: InputState) {
+    const { state } = player;
+    const direction = input.left ? -1 : input.right ? 1 : 0;
+    if (direction !== 0) state.facingRight = direction > 0;
+
+    const { gravity } = this.biome;
+    const impact = state.vy;
+    const wasOnGround = player.onGround;
+    const { onGround } = stepBody(this.world, state, PLAYER_SIZE, gravity, direction, WALK_SPEED, input.up);
+    player.onGround = onGround;
+    if (onGround) {
+      player.lastGroundTime = this.time;
+      if (!player.safeLanding) this.land(player, impact, gravity);
+      if (!wasOnGround && impact >= LAND_SOUND_SPEED) this.events.push({ type: "land", impact });
+      player.safeLanding = false;
+    }
+
+    // Jump, also shortly after leaving the ground (coyote time)
+    if (input.up && this.time - player.lastGroundTime <= COYOTE_MS) {
+      state.vy = -JUMP_SPEED;
+      player.lastGroundTime = -Infinity;
+      this.events.push({ type: "jump" });
+    }
+  }
+
+  // Fall damage from the speed the player hit the ground at. The height it
+  // takes to reach that speed under the biome's gravity is compared against
+  // the safe height, which is never less than the player can jump.
+  private land(player: Player, impact: number, gravity: number) {
+    const height = impact * impact / (2 * gravity);
+    const safe = Math.max(SAFE_FALL, JUMP_SPEED * JUMP_SPEED / (2 * gravity) + TILE_SIZE);
+    if (height > safe) this.hurt(player, Math.ceil((height - safe) / FALL_DAMAGE_PER), "Fell too far.");
+  }
+
+  // Lose health to damage. Returns false if the player is still recovering
+  // from the last hit.
+  private hurt(player: Player, damage: number, cause: string) {
+    const { state } = player;
+    if (player.hurtTime > 0) return false;
+    state.health = Math.max(0, state.health - damage);
+    player.hurtTime = HURT_COOLDOWN_MS;
+    this.events.push({ type: "hurt" });
+    if (state.health === 0) {
+      player.dead = true;
+      player.mining = null;
+      this.log(player, `${cause} Press A to respawn.`);
+    }
+    return true;
+  }
+
+  // Hunger drains over time; a full stomach heals, an empty one hurts.
+  // Lava burns.
+  private updateSurvival(player: Player) {
+    const { world } = this;
+    const { state } = player;
+    player.hungerTime += STEP_MS;
+    if (player.hungerTime >= HUNGER_MS) {
+      player.hungerTime = 0;
+      state.hunger = Math.max(0, state.hunger - 1);
+    }
+
+    player.healthTime += STEP_MS;
+    if (player.healthTime >= HEALTH_TICK_MS) {
+      player.healthTime = 0;
+      if (state.hunger === 0) {
+        this.hurt(player, 1, "Starved.");
+      } else if (state.hunger >= HUNGER_HEAL_MIN) {
+        state.health = Math.min(MAX_HEALTH, state.health + 1);
+      }
+    }
+
+    // Feet, middle or head in lava
+    const col = Math.floor(state.x / TILE_SIZE);
+    const inLava = [0.1, 0.5, 0.9].some(part =>
+      world.getBlock(col, Math.floor((state.y - PLAYER_HEIGHT * part) / TILE_SIZE)) === BlockType.LAVA);
+    if (inLava) this.hurt(player, LAVA_DAMAGE, "Burned in lava.");
+  }
+
+  // The living player closest to a point; mobs chase or flee from them
+  private nearestPlayer(x: number, y: number) {
+    let nearest: Player | null = null;
+    for (const player of this.players) {
+      if (player.dead) continue;
+      const distance = Math.hypot(player.state.x - x, player.state.y - y);
+      if (!nearest || distance < Math.hypot(nearest.state.x - x, nearest.state.y - y)) nearest = player;
+    }
+    return nearest;
+  }
+
+  // Spawn mobs away from the players where the light suits them, run their
+  // AI and forget the ones that died or were left far behind everyone
+  private updateMobs() {
+    const { world } = this;
+    this.spawnTime += STEP_MS;
+    if (this.spawnTime >= SPAWN_INTERVAL) {
+      this.spawnTime = 0;
+      const living = this.players.filter(player => !player.dead);
+      if (this.mobs.length < MAX_MOBS && living.length > 0) {
+        this.trySpawnMob(living[Math.floor(Math.random() * living.length)]);
+      }
+    }
+
+    for (const mob of this.mobs) {
+      const player = this.nearestPlayer(mob.x, mob.y);
+      if (!player) break;
+      const { state } = player;
+      const touching = updateMob(mob, world, this.biome.gravity, state, PLAYER_SIZE, STEP_MS);
+      if (touching && mob.kind.hostile && mob.attackTime === 0) {
+        // Hit and shove the player away; bigger mobs hit harder
+        mob.attackTime = MOB_ATTACK_MS;
+        if (this.hurt(player, Math.max(1, Math.round(mob.kind.size * 2)), `Killed by ${mob.kind.name}.`)) {
+          state.vx = Math.sign(state.x - mob.x || 1) * 4;
+          state.vy = -3;
+        }
+      }
+    }
+    this.mobs = this.mobs.filter(mob =>
+      mob.health > 0 && this.players.some(player => Math.abs(mob.x - player.state.x) < DESPAWN_DISTANCE));
+  }
+
+  private trySpawnMob(player: Player) {
+    const { world } = this;
+    const side = Math.random() < 0.5 ? -1 : 1;
+    const x = Math.floor(player.state.x / TILE_SIZE) + side * Math.floor(SPAWN_MIN_TILES + Math.random() * (SPAWN_MAX_TILES - SPAWN_MIN_TILES));
+    if (!world.getChunk(chunkIndexOf(x)).lit) return;
+    // Not right next to the other player either
+    if (this.players.some(other => Math.abs(other.state.x / TILE_SIZE - x) < SPAWN_MIN_TILES)) return;
+
+    const kinds = biomeMobs(this.biome);
+    const kind = kinds[Math.floor(Math.random() * kinds.length)];
+    const spots = standingSpots(world, x, TILE_SIZE * kind.size);
+    if (spots.length === 0) return;
+    const y = spots[Math.floor(Math.random() * spots.length)];
+
+    // Light where the mob's body would be
+    const sun = daylight(this.timeOfDay());
+    const light = Math.max(world.getSkyLight(x, y - 1) * sun, world.getBlockLight(x, y - 1));
+    if (!canSpawnIn(kind, light)) return;
+    this.mobs.push(createMob(this.nextMobId++, kind, (x + 0.5) * TILE_SIZE, y * TILE_SIZE));
+  }
+
+  // Hit the closest mob on the line from the player to where they're aiming.
+  // The line is also checked at knee height so small mobs can be hit too.
+  private attack(player: Player, input: InputState) {
+    const { state } = player;
+    const fromX = state.x;
+    const fromY = state.y - PLAYER_HEIGHT * 0.5;
+    const aim = this.aimPoint(player, input);
+    const distance = Math.hypot(aim.x - fromX, aim.y - fromY);
+    const scale = distance > this.reach ? this.reach / distance : 1;
+    const toX = fromX + (aim.x - fromX) * scale;
+    const toY = fromY + (aim.y - fromY) * scale;
+
+    let closest: Mob | null = null;
+    for (const mob of this.mobs) {
+      const hit = segmentHitsBody(fromX, fromY, toX, toY, mob, mob) ||
+        segmentHitsBody(fromX, fromY + KNEE_DROP, toX, toY + KNEE_DROP, mob, mob);
+      if (!hit) continue;
+      if (!closest || Math.abs(mob.x - fromX) < Math.abs(closest.x - fromX)) closest = mob;
+    }
+    if (!closest) return false;
+    hurtMob(closest, PUNCH_DAMAGE, state.x);
+    if (closest.health <= 0) {
+      // Passive mobs are food
+      const { hostile, name, size } = closest.kind;
+      if (!hostile) state.hunger = Math.min(MAX_HUNGER, state.hunger + Math.round(size * FOOD_PER_SIZE));
+      this.log(player, hostile ? `Defeated ${name}.` : `Ate ${name}.`);
+    }
+    return true;
+  }
+
+  private act(player: Player, input: InputState) {
+    const { world } = this;
+    const { state, inventory } = player;
+
+    // Pressing A on a mob punches it instead of mining. A guest's mobs are
+    // only pictures of the host's, so they can't be hit.
+    const punched = this.authoritative && this.pressed(player, input, "actionA") && this.attack(player, input);
+    if (punched) {
+      player.mining = null;
+      return;
+    }
+
+    if (!player.target) {
+      player.mining = null;
+      return;
+    }
+    const { x: gx, y: gy } = player.target;
+    const target = world.getBlock(gx, gy);
+
+    // Mine (A button) - hold on a block until its mining time has passed
+    const mining = player.mining;
+    if (input.actionA && isBreakable(target)) {
+      if (!mining || mining.x !== gx || mining.y !== gy) {
+        player.mining = { x: gx, y: gy, start: this.time };
+      } else if (this.time - mining.start >= miningDuration(target)) {
+        world.setBlock(gx, gy, BlockType.AIR);
+        this.events.push({ type: "mine", player: player.index, block: target, x: gx, y: gy });
+        // The drop goes into the inventory
+        const drop = getBlock(target).drops;
+        if (drop !== null) {
+          addItem(inventory, drop);
+          if (countOf(inventory, state.selectedBlock) === 0) state.selectedBlock = drop;
+        }
+        player.mining = null;
+      }
+    } else {
+      player.mining = null;
+    }
+
+    // Place (B button) - into air or fluid, consumes one of the selected block
+    if (input.actionB && this.time - player.lastPlaceTime > PLACE_COOLDOWN && gy >= 0 && gy < CHUNK_HEIGHT) {
+      const blockToPlace = state.selectedBlock;
+      const canPlace = isPlaceable(blockToPlace) && countOf(inventory, blockToPlace) > 0;
+      // Solid blocks can't go where they would trap a player or a mob
+      const blocked = isSolid(blockToPlace) && this.occupied(gx, gy);
+      if (isReplaceable(target) && canPlace && !blocked) {
+        world.setBlock(gx, gy, blockToPlace);
+        this.events.push({ type: "place", player: player.index, block: blockToPlace, x: gx, y: gy });
+        removeItem(inventory, blockToPlace);
+        if (countOf(inventory, blockToPlace) === 0) {
+          state.selectedBlock = nextHotbarBlock(inventory, blockToPlace);
+        }
+        player.lastPlaceTime = this.time;
+      }
+    }
+  }
+
+  // Cycle hotbar (once per press)
+  private cycleHotbar(player: Player, input: InputState) {
+    if (this.pressed(player, input, "cycle")) this.equip(player, nextHotbarBlock(player.inventory, player.state.selectedBlock));
+  }
+
+  // Pick a slot on the hotbar page on show, e.g. by tapping it
+  selectSlot(player: Player, slot: number) {
+    const block = hotbarBlocks(player.inventory, player.state.selectedBlock)[slot];
+    if (block !== undefined) this.equip(player, block);
+  }
+
+  private equip(player: Player, block: BlockType) {
+    player.state.selectedBlock = block;
+    this.log(player, `Equipped: ${getBlock(block).name} x${countOf(player.inventory, block)}`);
+  }
+
+  // Crafting menu: Up / Down pick a recipe, A crafts it, B or Select close the menu
+  private navigateCrafting(player: Player, input: InputState, crafting: { selected: number }) {
+    const count = this.recipes.length;
+    const scroll = this.pressed(player, input, "up") ? -1 : this.pressed(player, input, "down") ? 1 : 0;
+    if (scroll) {
+      crafting.selected = ((crafting.selected + scroll) % count + count) % count;
+      this.events.push({ type: "menu" });
+    }
+    if (this.pressed(player, input, "actionA")) this.craftRecipe(player, this.recipes[crafting.selected]);
+    if (this.pressed(player, input, "actionB") || this.pressed(player, input, "select")) {
+      player.crafting = null;
+      this.events.push({ type: "menu" });
+      player.lastPlaceTime = this.time; // Don't place a block with the B press that closed the menu
+    }
+  }
+
+  private craftRecipe(player: Player, recipe: Recipe) {
+    const { state, inventory } = player;
+    const { output, station } = recipe;
+    const name = getBlock(output.block).name;
+    if (station !== undefined && !this.stationInRange(player, station)) {
+      this.log(player, `${name} needs a ${getBlock(station).name} nearby.`);
+      this.events.push({ type: "craft", ok: false });
+    } else if (!craft(inventory, recipe)) {
+      this.log(player, `Not enough materials for ${name}.`);
+      this.events.push({ type: "craft", ok: false });
+    } else {
+      this.events.push({ type: "craft", ok: true });
+      if (countOf(inventory, state.selectedBlock) === 0) state.selectedBlock = output.block;
+      this.log(player, `Crafted ${name} x${output.count}.`);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { BiomeConfig, BlockType, MobKind } from "../types";
+import { ChunkStore } from "./chunkStore";
+import { isSolid } from "./blocks";
+import { Body, BodySize, JUMP_SPEED, overlapsBody, stepBody } from "./physics";
+import { CHUNK_HEIGHT, TILE_SIZE } from "./worldGenerator";
+
+// Mobs: creatures with a body, health and a tiny state machine for a brain.
+// They are simulated near the player only and aren't saved.
+
+export const DEFAULT_MOBS: MobKind[] = [
+  { name: "Bunny", color: "#E8DCC8", size: 0.6, speed: 1.4, hostile: false },
+  { name: "Sheep", color: "#F4F4F4", size: 0.9, speed: 0.8, hostile: false },
+  { name: "Zombie", color: "#4E7A3A", size: 1.7, speed: 1, hostile: true },
+  { name: "Slime", color: "#5BC85B", size: 0.8, speed: 1.2, hostile: true },
+];
+
+// Light levels (0..MAX_LIGHT) mobs need to spawn
+const HOSTILE_MAX_LIGHT = 5;
+const PASSIVE_MIN_LIGHT = 10;
+
+const CHASE_RANGE = TILE_SIZE * 10; // Hostile mobs notice the player this close
+const FLEE_MS = 3000;
+const HURT_FLASH_MS = 300;
+
+export type MobMode = "wander" | "chase" | "flee";
+
+export interface Mob extends Body, BodySize {
+  id: number;
+  kind: MobKind;
+  facingRight: boolean;
+  health: number;
+  maxHealth: number;
+  mode: MobMode;
+  direction: number; // -1, 0 or 1
+  modeTime: number; // ms until a wandering mob picks a new direction, or a fleeing one calms down
+  hurtTime: number; // ms left of the red flash after being hit
+  attackTime: number; // ms until a hostile mob can hit the player again
+}
+
+export const biomeMobs = (biome: BiomeConfig) => (biome.mobs?.length ? biome.mobs : DEFAULT_MOBS);
+
+export const createMob = (id: number, kind: MobKind, x: number, y: number): Mob => ({
+  id,
+  kind,
+  x,
+  y,
+  vx: 0,
+  vy: 0,
+  width: TILE_SIZE * kind.size * 0.8,
+  height: TILE_SIZE * kind.size,
+  facingRight: true,
+  health: Math.max(1, Math.round(kind.size * 4)),
+  maxHealth: Math.max(1, Math.round(kind.size * 4)),
+  mode: "wander",
+  direction: 0,
+  modeTime: 0,
+  hurtTime: 0,
+  attackTime: 0,
+});
+
+// Hostile mobs turn up in the dark, passive ones in bright light
+export const canSpawnIn = (kind: MobKind, light: number) =>
+  kind.hostile ? light <= HOSTILE_MAX_LIGHT : light >= PASSIVE_MIN_LIGHT;
+
+// Rows in column x where a mob `height` pixels tall could stand
+export const standingSpots = (world: ChunkStore, x: number, height: number) => {
+  const rows = Math.ceil(height / TILE_SIZE);
+  const spots: number[] = [];
+  for (let y = rows; y < CHUNK_HEIGHT; y++) {
+    if (!isSolid(world.getBlock(x, y))) continue;
+    let clear = true;
+    for (let above = y - rows; above < y; above++) {
+      clear = clear && world.getBlock(x, above) === BlockType.AIR;
+    }
+    if (clear) spots.push(y);
+  }
+  return spots;
+};
+
+// Knock a mob back and make it react: hostile mobs fight back, passive ones run
+export const hurtMob = (mob: Mob, damage: number, fromX: number) => {
+  mob.health -= damage;
+  mob.hurtTime = HURT_FLASH_MS;
+  mob.vx = Math.sign(mob.x - fromX) * 3;
+  mob.vy = -3;
+  if (!mob.kind.hostile) {
+    mob.mode = "flee";
+    mob.modeTime = FLEE_MS;
+  }
+};
+
+// One simulation step of a mob's brain and body. Returns true when the mob
+// is touching the player.
+export const updateMob = (
+  mob: Mob, world: ChunkStore, gravity: number, player: Body, playerSize: BodySize, dt: number,
+) => {
+  mob.modeTime -= dt;
+  mob.hurtTime = Math.max(0, mob.hurtTime - dt);
+  mob.attackTime = Math.max(0, mob.attackTime - dt);
+
+  const dx = player.x - mob.x;
+  const distance = Math.hypot(dx, player.y - mob.y);
+  if (mob.kind.hostile) {
+    mob.mode = distance < CHASE_RANGE ? "chase" : "wander";
+  } else if (mob.mode === "flee" && mob.modeTime <= 0) {
+    mob.mode = "wander";
+  }
+
+  if (mob.mode === "chase") {
+    mob.direction = Math.abs(dx) < 2 ? 0 : Math.sign(dx);
+  } else if (mob.mode === "flee") {
+    mob.direction = dx > 0 ? -1 : 1;
+  } else if (mob.modeTime <= 0) {
+    // Wander: stand still about half the time
+    mob.direction = Math.random() < 0.5 ? 0 : Math.random() < 0.5 ? -1 : 1;
+    mob.modeTime = 1000 + Math.random() * 2000;
+  }
+
+  // Knocked back mobs slide for a moment instead of walking
+  const direction = mob.hurtTime > 0 ? 0 : mob.direction;
+  const speed = mob.mode === "wander" ? mob.kind.speed * 0.5 : mob.kind.speed;
+  const { onGround, hitWall } = stepBody(world, mob, mob, gravity, direction, speed, true);
+  if (direction !== 0) mob.facingRight = direction > 0;
+
+  if (hitWall && onGround) {
+    if (mob.mode === "wander") {
+      mob.direction = -mob.direction; // Turn around rather than hop about
+    } else {
+      mob.vy = -JUMP_SPEED;
+    }
+  }
+
+  return overlapsBody(mob, mob, player, playerSize);
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { BlockType, DEFAULT_BIOME } from "../types";
+import { ChunkStore } from "./chunkStore";
+import { stepFluids } from "./fluids";
+
+describe("stepFluids", () => {
+  it("moves fluid without marking the chunk as edited", () => {
+    const world = new ChunkStore(DEFAULT_BIOME);
+    world.flowBlock(5, 0, BlockType.WATER); // The top row is always sky
+    for (let tick = 0; tick < 10; tick++) stepFluids(world, 0, 10, tick);
+    expect(world.getBlock(5, 0)).toBe(BlockType.AIR);
+    expect(world.modifiedChunks()).toEqual([]);
+
+    world.setBlock(5, 0, BlockType.DIRT);
+    expect(world.modifiedChunks().map(chunk => chunk.index)).toEqual([0]);
+  });
+});
@@ -0,0 +1,82 @@
+import { BlockType } from "../types";
+import { MAX_FLUID_LEVEL, getBlock } from "./blocks";
+import { ChunkStore } from "./chunkStore";
+import { CHUNK_HEIGHT } from "./worldGenerator";
+
+// Milliseconds between fluid simulation ticks
+export const FLUID_TICK_MS = 100;
+
+// A fluid touching `touching` turns into `becomes` (lava + water => stone)
+const REACTIONS: { fluid: BlockType; touching: BlockType; becomes: BlockType }[] = [
+  { fluid: BlockType.LAVA, touching: BlockType.WATER, becomes: BlockType.STONE },
+];
+
+const NEIGHBOURS = [[0, -1], [0, 1], [-1, 0], [1, 0]];
+
+// One step of a volume-conserving cellular automaton over the columns
+// [minX, maxX]. Each fluid tile holds 1..MAX_FLUID_LEVEL units: it first
+// pours as much as it can into the tile below, then leaks single units
+// sideways into emptier neighbours. Rows are processed bottom-up so falling
+// fluid isn't moved twice, and the horizontal scan direction alternates
+// every tick to keep spreading symmetric.
+export const stepFluids = (world: ChunkStore, minX: number, maxX: number, tick: number) => {
+  const moved = new Set<string>();
+  const leftToRight = tick % 2 === 0;
+  const sides = leftToRight ? [1, -1] : [-1, 1];
+
+  for (let y = CHUNK_HEIGHT - 1; y >= 0; y--) {
+    for (let i = 0; i <= maxX - minX; i++) {
+      const x = leftToRight ? minX + i : maxX - i;
+      const type = world.getBlock(x, y);
+      const fluid = getBlock(type).fluid;
+      if (!fluid || tick % fluid.flowInterval !== 0 || moved.has(`${x},${y}`)) continue;
+
+      // Reactions with neighbouring fluids
+      const reaction = REACTIONS.find(r => r.fluid === type &&
+        NEIGHBOURS.some(([dx, dy]) => world.getBlock(x + dx, y + dy) === r.touching));
+      if (reaction) {
+        world.flowBlock(x, y, reaction.becomes);
+        continue;
+      }
+
+      let level = world.getLevel(x, y);
+
+      // Fall
+      const below = world.getBlock(x, y + 1);
+      if (below === BlockType.AIR) {
+        world.flowBlock(x, y + 1, type, level);
+        world.flowBlock(x, y, BlockType.AIR);
+        moved.add(`${x},${y + 1}`);
+        continue;
+      }
+      if (below === type) {
+        const room = MAX_FLUID_LEVEL - world.getLevel(x, y + 1);
+        const amount = Math.min(room, level);
+        if (amount > 0) {
+          world.flowLevel(x, y + 1, world.getLevel(x, y + 1) + amount);
+          level -= amount;
+        }
+      }
+
+      // Spread sideways, leaving at least one unit behind
+      for (const dx of sides) {
+        if (level <= 1) break;
+        const side = world.getBlock(x + dx, y);
+        if (side === BlockType.AIR) {
+          world.flowBlock(x + dx, y, type, 1);
+          moved.add(`${x + dx},${y}`);
+          level -= 1;
+        } else if (side === type && world.getLevel(x + dx, y) < level - 1) {
+          world.flowLevel(x + dx, y, world.getLevel(x + dx, y) + 1);
+          level -= 1;
+        }
+      }
+
+      if (level === 0) {
+        world.flowBlock(x, y, BlockType.AIR);
+      } else if (level !== world.getLevel(x, y)) {
+        world.flowLevel(x, y, level);
+      }
+    }
+  }
+};
@@ -0,0 +1,271 @@
+import { InputState } from "../types";
+
+// Keyboard, touch buttons and gamepads all write into one shared InputState.
+// Each source keeps its own set of held actions and the state is their union,
+// so releasing a key doesn't cancel the same action held on the gamepad.
+// In co-op a second state is fed from the partner key cluster and the last
+// connected gamepad.
+
+export type InputAction = keyof InputState;
+type InputSource = "keyboard" | "touch" | "gamepad";
+const INPUT_SOURCES: InputSource[] = ["keyboard", "touch", "gamepad"];
+
+export interface Bindings {
+  keyboard: Record<InputAction, string[]>; // KeyboardEvent.code values
+  partnerKeyboard: Record<InputAction, string[]>; // Player two's keys in co-op
+  gamepad: Record<InputAction, number[]>; // Standard gamepad button indices, for every pad
+}
+
+export const INPUT_ACTIONS: InputAction[] = ["left", "right", "up", "down", "actionA", "actionB", "cycle", "select", "start"];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  left: "Move Left",
+  right: "Move Right",
+  up: "Jump / Swim",
+  down: "Down",
+  actionA: "Mine (hold)",
+  actionB: "Place Block",
+  cycle: "Next Item",
+  select: "Crafting",
+  start: "Menu",
+};
+
+export const DEFAULT_BINDINGS: Bindings = {
+  keyboard: {
+    left: ["ArrowLeft"],
+    right: ["ArrowRight"],
+    up: ["ArrowUp"],
+    down: ["ArrowDown"],
+    actionA: ["KeyZ"],
+    actionB: ["KeyX"],
+    cycle: ["KeyC"],
+    select: ["KeyV"],
+    start: ["Enter"],
+  },
+  partnerKeyboard: {
+    left: ["KeyJ"],
+    right: ["KeyL"],
+    up: ["KeyI"],
+    down: ["KeyK"],
+    actionA: ["KeyU"],
+    actionB: ["KeyO"],
+    cycle: ["KeyP"],
+    select: ["KeyM"],
+    start: [],
+  },
+  gamepad: {
+    left: [14],
+    right: [15],
+    up: [12],
+    down: [13],
+    actionA: [0],
+    actionB: [1],
+    cycle: [5],
+    select: [8],
+    start: [9],
+  },
+};
+
+// Standard mapping button names (https://w3c.github.io/gamepad/#remapping)
+const GAMEPAD_BUTTONS = [
+  "A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Select", "Start", "L3", "R3", "Up", "Down", "Left", "Right", "Home",
+];
+
+const STICK_DEADZONE = 0.5;
+const STORAGE_KEY = "pocketcraft.bindings";
+
+export const keyLabel = (code: string) => code.replace(/^(Key|Digit|Arrow)/, "");
+export const buttonLabel = (button: number) => GAMEPAD_BUTTONS[button] ?? `Button ${button}`;
+
+export const createInputState = (): InputState => ({
+  left: false, right: false, up: false, down: false, actionA: false, actionB: false, cycle: false, select: false, start: false,
+});
+
+// --- Persisted bindings ---
+
+const bindingListeners = new Set<(bindings: Bindings) => void>();
+
+export const loadBindings = (): Bindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    if (stored) {
+      // Actions added since the bindings were saved keep their defaults
+      return {
+        keyboard: { ...DEFAULT_BINDINGS.keyboard, ...stored.keyboard },
+        partnerKeyboard: { ...DEFAULT_BINDINGS.partnerKeyboard, ...stored.partnerKeyboard },
+        gamepad: { ...DEFAULT_BINDINGS.gamepad, ...stored.gamepad },
+      };
+    }
+  } catch (error) {
+    console.error("Bad stored bindings:", error);
+  }
+  return DEFAULT_BINDINGS;
+};
+
+export const saveBindings = (bindings: Bindings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  bindingListeners.forEach(listener => listener(bindings));
+};
+
+export const subscribeBindings = (listener: (bindings: Bindings) => void) => {
+  bindingListeners.add(listener);
+  return () => { bindingListeners.delete(listener); };
+};
+
+// --- Input manager ---
+
+type Capture = { source: "keyboard"; done: (code: string) => void } | { source: "gamepad"; done: (button: number) => void };
+
+const createHeld = (): Record<InputSource, Set<InputAction>> => ({
+  keyboard: new Set(), touch: new Set(), gamepad: new Set(),
+});
+
+export class InputManager {
+  private held = [createHeld(), createHeld()]; // Player one, player two
+  private partner: InputState | null = null;
+  private pressListeners = new Set<(action: InputAction) => void>();
+  private capture: Capture | null = null;
+  private buttonsDown = new Set<number>();
+  private frame = 0;
+
+  constructor(readonly state: InputState, private bindings: Bindings) {}
+
+  setBindings(bindings: Bindings) {
+    this.bindings = bindings;
+  }
+
+  // Co-op: player two's state, or null to go back to one player
+  setPartner(state: InputState | null) {
+    for (const source of INPUT_SOURCES) {
+      INPUT_ACTIONS.forEach(action => this.set(1, source, action, false));
+    }
+    this.partner = state;
+  }
+
+  // Fired once when an action goes from released to held, from any source
+  // or player
+  onPress(listener: (action: InputAction) => void) {
+    this.pressListeners.add(listener);
+    return () => { this.pressListeners.delete(listener); };
+  }
+
+  // The next key / gamepad button goes to `done` instead of the game (for remapping)
+  captureKey(done: (code: string) => void) {
+    this.capture = { source: "keyboard", done };
+  }
+
+  captureButton(done: (button: number) => void) {
+    this.capture = { source: "gamepad", done };
+  }
+
+  cancelCapture() {
+    this.capture = null;
+  }
+
+  setTouch(action: InputAction, down: boolean) {
+    this.set(0, "touch", action, down);
+  }
+
+  // Starts listening to the keyboard and polling gamepads, returns a cleanup
+  attach(target: Window) {
+    const onKey = (e: KeyboardEvent) => {
+      // Typing into a text field shouldn't move the player
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const down = e.type === "keydown";
+      if (down && this.capture?.source === "keyboard") {
+        e.preventDefault();
+        const { done } = this.capture;
+        this.capture = null;
+        done(e.code);
+        return;
+      }
+      for (const action of INPUT_ACTIONS) {
+        if (this.bindings.keyboard[action].includes(e.code)) {
+          if (down) e.preventDefault();
+          this.set(0, "keyboard", action, down);
+        }
+        if (this.partner && this.bindings.partnerKeyboard[action].includes(e.code)) {
+          if (down) e.preventDefault();
+          this.set(1, "keyboard", action, down);
+        }
+      }
+    };
+    // Don't leave keys stuck down when the window loses focus mid-press
+    const onBlur = () => INPUT_ACTIONS.forEach(action => {
+      this.set(0, "keyboard", action, false);
+      this.set(1, "keyboard", action, false);
+    });
+    const unsubscribe = subscribeBindings(bindings => this.setBindings(bindings));
+
+    target.addEventListener("keydown", onKey);
+    target.addEventListener("keyup", onKey);
+    target.addEventListener("blur", onBlur);
+    const poll = () => {
+      this.pollGamepads();
+      this.frame = requestAnimationFrame(poll);
+    };
+    this.frame = requestAnimationFrame(poll);
+
+    return () => {
+      target.removeEventListener("keydown", onKey);
+      target.removeEventListener("keyup", onKey);
+      target.removeEventListener("blur", onBlur);
+      cancelAnimationFrame(this.frame);
+      unsubscribe();
+    };
+  }
+
+  private pollGamepads() {
+    const pads = [...(navigator.getGamepads ? navigator.getGamepads() : [])].filter((pad): pad is Gamepad => pad !== null);
+    // In co-op the last connected pad is player two's, the rest are player one's
+    const partnerPad = this.partner ? pads[pads.length - 1] : undefined;
+    const buttons = new Set<number>();
+    const actions = [new Set<InputAction>(), new Set<InputAction>()];
+    for (const pad of pads) {
+      const held = actions[pad === partnerPad ? 1 : 0];
+      pad.buttons.forEach((button, index) => {
+        if (!button.pressed) return;
+        buttons.add(index);
+        INPUT_ACTIONS.forEach(action => { if (this.bindings.gamepad[action].includes(index)) held.add(action); });
+      });
+      // Left stick always works as a d-pad
+      const [x = 0, y = 0] = pad.axes;
+      if (x < -STICK_DEADZONE) held.add("left");
+      if (x > STICK_DEADZONE) held.add("right");
+      if (y < -STICK_DEADZONE) held.add("up");
+      if (y > STICK_DEADZONE) held.add("down");
+    }
+
+    if (this.capture?.source === "gamepad") {
+      const pressed = [...buttons].find(button => !this.buttonsDown.has(button));
+      if (pressed !== undefined) {
+        const { done } = this.capture;
+        this.capture = null;
+        done(pressed);
+      }
+    }
+    this.buttonsDown = buttons;
+
+    actions.forEach((held, player) => {
+      for (const action of INPUT_ACTIONS) this.set(player, "gamepad", action, held.has(action));
+    });
+  }
+
+  private set(player: number, source: InputSource, action: InputAction, down: boolean) {
+    const state = player === 0 ? this.state : this.partner;
+    if (!state) return;
+    const sources = this.held[player];
+    const held = sources[source];
+    if (held.has(action) === down) return;
+    if (down) {
+      held.add(action);
+    } else {
+      held.delete(action);
+    }
+    const wasDown = state[action];
+    state[action] = sources.keyboard.has(action) || sources.touch.has(action) || sources.gamepad.has(action);
+    if (!wasDown && state[action]) {
+      this.pressListeners.forEach(listener => listener(action));
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { BlockType, Inventory } from "../types";
+
+export const HOTBAR_SIZE = 8;
+
+// What a new game starts with: a few torches for the first night
+export const createStartingInventory = (): Inventory => ({ [BlockType.TORCH]: 8 });
+
+export const countOf = (inventory: Inventory, block: BlockType) => inventory[block] ?? 0;
+
+export const addItem = (inventory: Inventory, block: BlockType, amount = 1) => {
+  inventory[block] = countOf(inventory, block) + amount;
+};
+
+// Returns false (and leaves the inventory alone) if there aren't enough
+export const removeItem = (inventory: Inventory, block: BlockType, amount = 1): boolean => {
+  const count = countOf(inventory, block);
+  if (count < amount) return false;
+  if (count === amount) {
+    delete inventory[block];
+  } else {
+    inventory[block] = count - amount;
+  }
+  return true;
+};
+
+// Every block the player has, in block id order
+export const inventoryBlocks = (inventory: Inventory): BlockType[] =>
+  (Object.keys(inventory).map(Number) as BlockType[])
+    .filter(block => countOf(inventory, block) > 0)
+    .sort((a, b) => a - b);
+
+// The hotbar shows the inventory HOTBAR_SIZE blocks at a time: the page
+// holding the selected block, or the first one
+export const hotbarPage = (inventory: Inventory, selected: BlockType) => {
+  const blocks = inventoryBlocks(inventory);
+  const page = Math.max(0, Math.floor(blocks.indexOf(selected) / HOTBAR_SIZE));
+  return {
+    blocks: blocks.slice(page * HOTBAR_SIZE, (page + 1) * HOTBAR_SIZE),
+    page,
+    pages: Math.max(1, Math.ceil(blocks.length / HOTBAR_SIZE)),
+  };
+};
+
+export const hotbarBlocks = (inventory: Inventory, selected: BlockType): BlockType[] =>
+  hotbarPage(inventory, selected).blocks;
+
+// Next block after `current` across the whole inventory (not just the page
+// on show), wrapping around
+export const nextHotbarBlock = (inventory: Inventory, current: BlockType): BlockType => {
+  const blocks = inventoryBlocks(inventory);
+  if (blocks.length === 0) return current;
+  const index = blocks.indexOf(current);
+  return blocks[(index + 1) % blocks.length];
+};
@@ -0,0 +1,138 @@
+import { BlockType } from "../types";
+import { MAX_LIGHT, getBlock, isFluid, isSolid } from "./blocks";
+import { ChunkStore, chunkIndexOf } from "./chunkStore";
+import { CHUNK_HEIGHT, CHUNK_WIDTH } from "./worldGenerator";
+
+// Tile light is kept in two flood-filled channels: sky light, which falls
+// straight down from the top of the world and is scaled by the time of day,
+// and block light from emissive blocks (ore, lava, torches). Light loses a
+// level per tile, two through leaves and fluids. Solid blocks are lit on
+// their faces but don't pass light on, which is what makes caves dark.
+
+// Light travels at most this many tiles, so a block change can't affect
+// anything further away
+const LIGHT_RANGE = MAX_LIGHT;
+// Chunks kept lit around the player, enough to cover the screen
+const LIT_RADIUS = 1;
+
+// Day starts a little after sunrise
+const START_OF_DAY = 0.05;
+
+const lightCost = (type: number) => (isFluid(type) || type === BlockType.LEAVES ? 2 : 1);
+
+// Solid blocks stop light unless they glow themselves
+const passesLight = (type: number) => !isSolid(type) || getBlock(type).light > 0;
+
+// Recompute the light of columns [minX, maxX] from scratch. Light stored
+// just outside the range flows in from the sides.
+export const relight = (world: ChunkStore, minX: number, maxX: number) => {
+  const width = maxX - minX + 1;
+  const types = new Int32Array(width * CHUNK_HEIGHT);
+  const sky = new Uint8Array(width * CHUNK_HEIGHT);
+  const block = new Uint8Array(width * CHUNK_HEIGHT);
+  const skyQueue: number[] = [];
+  const blockQueue: number[] = [];
+
+  for (let i = 0; i < width; i++) {
+    let open = true; // Nothing above but air so far
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+      const index = y * width + i;
+      const type = world.getBlock(minX + i, y);
+      types[index] = type;
+      open = open && type === BlockType.AIR;
+      if (open) {
+        sky[index] = MAX_LIGHT;
+        skyQueue.push(index);
+      }
+      const emitted = getBlock(type).light;
+      if (emitted > 0) {
+        block[index] = emitted;
+        blockQueue.push(index);
+      }
+    }
+  }
+
+  // Seed the edge columns with light from their outside neighbours
+  for (const [outsideX, i] of [[minX - 1, 0], [maxX + 1, width - 1]]) {
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+      if (!passesLight(world.getBlock(outsideX, y))) continue;
+      const index = y * width + i;
+      const cost = lightCost(types[index]);
+      const skyLevel = world.getSkyLight(outsideX, y) - cost;
+      if (skyLevel > sky[index]) {
+        sky[index] = skyLevel;
+        skyQueue.push(index);
+      }
+      const blockLevel = world.getBlockLight(outsideX, y) - cost;
+      if (blockLevel > block[index]) {
+        block[index] = blockLevel;
+        blockQueue.push(index);
+      }
+    }
+  }
+
+  // Breadth-first flood fill, re-queueing tiles whenever they get brighter
+  const spread = (levels: Uint8Array, queue: number[]) => {
+    for (let head = 0; head < queue.length; head++) {
+      const index = queue[head];
+      const level = levels[index];
+      if (level <= 1 || !passesLight(types[index])) continue;
+      const i = index % width;
+      const y = (index - i) / width;
+      const neighbours = [
+        i > 0 ? index - 1 : -1,
+        i < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < CHUNK_HEIGHT - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next < 0) continue;
+        const nextLevel = level - lightCost(types[next]);
+        if (nextLevel > levels[next]) {
+          levels[next] = nextLevel;
+          queue.push(next);
+        }
+      }
+    }
+  };
+  spread(sky, skyQueue);
+  spread(block, blockQueue);
+
+  for (let i = 0; i < width; i++) {
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+      world.setLight(minX + i, y, sky[y * width + i], block[y * width + i]);
+    }
+  }
+};
+
+// Light chunks that came into range and relight around changed blocks.
+// Changes close together are relit as one range.
+export const updateLighting = (world: ChunkStore, centerX: number) => {
+  const center = chunkIndexOf(centerX);
+  for (let index = center - LIT_RADIUS; index <= center + LIT_RADIUS; index++) {
+    const chunk = world.getChunk(index);
+    if (chunk.lit) continue;
+    relight(world, index * CHUNK_WIDTH - LIGHT_RANGE, (index + 1) * CHUNK_WIDTH - 1 + LIGHT_RANGE);
+    chunk.lit = true;
+  }
+
+  const columns = world.takeChangedColumns().sort((a, b) => a - b);
+  let start = 0;
+  for (let i = 1; i <= columns.length; i++) {
+    if (i === columns.length || columns[i] - columns[i - 1] > LIGHT_RANGE) {
+      relight(world, columns[start] - LIGHT_RANGE, columns[i - 1] + LIGHT_RANGE);
+      start = i;
+    }
+  }
+};
+
+// 0 = sunrise, 0.25 = noon, 0.5 = sunset, 0.75 = midnight
+export const timeOfDay = (time: number, dayLength: number) => (time / (dayLength * 1000) + START_OF_DAY) % 1;
+
+// Strength of sky light, full for most of the day and 0 through the night
+export const daylight = (dayTime: number) =>
+  Math.max(0, Math.min(1, 0.5 + 2 * Math.sin(dayTime * Math.PI * 2)));
+
+// Final brightness of a tile, 0..1. Ambient light keeps the darkest spots visible.
+export const brightness = (sky: number, block: number, sun: number, ambient: number) =>
+  ambient + (1 - ambient) * Math.max(sky * sun, block) / MAX_LIGHT;
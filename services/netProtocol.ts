@@ -0,0 +1,152 @@
+import { BlockType, PlayerState } from "../types";
+import { MAX_FLUID_LEVEL } from "./blocks";
+import { asObject, isInteger, isNumber, isObject } from "./validation";
+import { CHUNK_HEIGHT } from "./worldGenerator";
+
+// Messages players exchange through the relay (server/relay.js). Clients
+// only ever talk to the relay: it assigns each one an id, groups them into
+// rooms and forwards messages, but doesn't look inside them. The host owns
+// the room's world: guests are sent it when they join, ask the host for
+// every block edit, and from then on are sent every tile that changes. Only
+// the host runs fluids and mobs.
+
+export const PROTOCOL_VERSION = 3;
+export const DEFAULT_RELAY_URL = "ws://localhost:8787";
+
+export type NetRole = "host" | "guest";
+
+// A tile of the host's world as it is now
+export interface Tile {
+  x: number;
+  y: number;
+  block: number;
+  level: number; // Fluid level, 0 for everything else
+}
+
+// Enough of a host's mob for guests to draw it
+export interface MobState {
+  id: number;
+  kind: number; // Index into the biome's mob kinds
+  x: number;
+  y: number;
+  facingRight: boolean;
+  health: number;
+  hurt: boolean;
+}
+
+// --- Game messages ---
+
+export type NetMessage =
+  // Guest asking the host for the world, sent once connected
+  | { type: "join"; version: number }
+  // Host turning a guest away (e.g. a different protocol version)
+  | { type: "denied"; reason: string }
+  // Host's biome and world edits as share JSON (see shareCode.ts); sent to
+  // new guests and to everyone when the host switches worlds
+  | { type: "world"; bundle: string }
+  // Where a player is, several times a second; the first one names them
+  | { type: "state"; name: string; player: PlayerState; onGround: boolean; mining: boolean }
+  // A guest's block mined or placed by one of its players, sent to the host
+  // to check and apply
+  | { type: "block"; player: number; mined: boolean; block: number; x: number; y: number }
+  // Host undoing a guest's edit: the tile as it really is, and `count` of
+  // `block` to give back to the player (negative to take a drop away again)
+  | { type: "refused"; player: number; tile: Tile; block: number; count: number }
+  // Tiles that changed in the host's world (edits, fluid flow)
+  | { type: "tiles"; tiles: Tile[] }
+  // Host's mobs, several times a second
+  | { type: "mobs"; mobs: MobState[] }
+  | { type: "chat"; name: string; text: string };
+
+export const MAX_NAME_LENGTH = 16;
+export const MAX_CHAT_LENGTH = 120;
+export const MAX_TILES = 2048; // Per message; more are split over several
+const MAX_MOBS = 16;
+
+// --- Relay envelopes ---
+
+// What the relay sends a client
+export type RelayMessage =
+  | { relay: "hello"; id: string; host: string } // Your id and the host's (the same if you are the host)
+  | { relay: "joined"; id: string }
+  | { relay: "left"; id: string }
+  | { relay: "error"; message: string } // Sent just before the relay closes the connection
+  | { from: string; data: unknown }; // A game message from another client
+
+// What a client sends the relay: a game message for one client, or everyone else
+export interface RelayEnvelope {
+  to?: string;
+  data: NetMessage;
+}
+
+// --- Validation ---
+
+// Anything arriving over the network is checked before it reaches the game
+
+const isText = (value: unknown, max: number): value is string => typeof value === "string" && value.length <= max;
+
+const isPlayerState = (raw: unknown): raw is PlayerState =>
+  isObject(raw) && isNumber(raw.x) && isNumber(raw.y) && isNumber(raw.vx) && isNumber(raw.vy) &&
+  typeof raw.facingRight === "boolean" && Number.isInteger(raw.selectedBlock) &&
+  isNumber(raw.health) && isNumber(raw.hunger);
+
+// A guest's local players, player one and a co-op partner
+const isPlayerIndex = (value: unknown): value is number => value === 0 || value === 1;
+
+const isRow = (value: unknown): value is number => isInteger(value) && value >= 0 && value < CHUNK_HEIGHT;
+
+const isTile = (raw: unknown): raw is Tile =>
+  isObject(raw) && isInteger(raw.x) && isRow(raw.y) && isInteger(raw.block) && raw.block >= 0 &&
+  isInteger(raw.level) && raw.level >= 0 && raw.level <= MAX_FLUID_LEVEL;
+
+const isMobState = (raw: unknown): raw is MobState =>
+  isObject(raw) && isInteger(raw.id) && isInteger(raw.kind) && raw.kind >= 0 && isNumber(raw.x) && isNumber(raw.y) &&
+  typeof raw.facingRight === "boolean" && isNumber(raw.health) && typeof raw.hurt === "boolean";
+
+// Only the fields the game uses, so nothing extra rides along
+const pickPlayer = (raw: PlayerState): PlayerState => ({
+  x: raw.x, y: raw.y, vx: raw.vx, vy: raw.vy, facingRight: raw.facingRight,
+  selectedBlock: raw.selectedBlock as BlockType, health: raw.health, hunger: raw.hunger,
+});
+const pickTile = ({ x, y, block, level }: Tile): Tile => ({ x, y, block, level });
+const pickMob = ({ id, kind, x, y, facingRight, health, hurt }: MobState): MobState => ({ id, kind, x, y, facingRight, health, hurt });
+
+export const parseMessage = (data: unknown): NetMessage | null => {
+  const raw = asObject(data);
+  switch (raw.type) {
+    case "join":
+      return isInteger(raw.version) ? { type: "join", version: raw.version } : null;
+    case "denied":
+      return isText(raw.reason, MAX_CHAT_LENGTH) ? { type: "denied", reason: raw.reason } : null;
+    case "world":
+      return typeof raw.bundle === "string" ? { type: "world", bundle: raw.bundle } : null;
+    case "state":
+      if (!isText(raw.name, MAX_NAME_LENGTH) || !isPlayerState(raw.player)) return null;
+      return { type: "state", name: raw.name, player: pickPlayer(raw.player), onGround: !!raw.onGround, mining: !!raw.mining };
+    case "block": {
+      const { player, mined, block, x, y } = raw;
+      const valid = isPlayerIndex(player) && typeof mined === "boolean" && isInteger(block) && block >= 0 && isInteger(x) && isRow(y);
+      return valid ? { type: "block", player, mined, block, x, y } : null;
+    }
+    case "refused": {
+      const { player, tile, block, count } = raw;
+      const valid = isPlayerIndex(player) && isTile(tile) && isInteger(block) && block >= 0 && isInteger(count);
+      return valid ? { type: "refused", player, tile: pickTile(tile), block, count } : null;
+    }
+    case "tiles": {
+      const { tiles } = raw;
+      const valid = Array.isArray(tiles) && tiles.length <= MAX_TILES && tiles.every(isTile);
+      return valid ? { type: "tiles", tiles: tiles.map(pickTile) } : null;
+    }
+    case "mobs": {
+      const { mobs } = raw;
+      const valid = Array.isArray(mobs) && mobs.length <= MAX_MOBS && mobs.every(isMobState);
+      return valid ? { type: "mobs", mobs: mobs.map(pickMob) } : null;
+    }
+    case "chat":
+      if (!isText(raw.name, MAX_NAME_LENGTH) || !isText(raw.text, MAX_CHAT_LENGTH) || !raw.text.trim()) return null;
+      return { type: "chat", name: raw.name, text: raw.text };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,394 @@
+import { BiomeConfig, BlockType, PlayerState } from "../types";
+import { getBlock, isBreakable, isPlaceable, isReplaceable, isSolid } from "./blocks";
+import { GameEngine, GameEvent, PLAYER_HEIGHT } from "./engine";
+import { biomeMobs, createMob } from "./entities";
+import { addItem, countOf, nextHotbarBlock, removeItem } from "./inventory";
+import {
+  DEFAULT_RELAY_URL, MAX_CHAT_LENGTH, MAX_NAME_LENGTH, MAX_TILES, MobState, NetMessage, NetRole, PROTOCOL_VERSION,
+  RelayEnvelope, Tile, parseMessage,
+} from "./netProtocol";
+import { ShareBundle, ShareCodeError, createBundle, exportJson, importJson } from "./shareCode";
+import { JsonObject, asObject } from "./validation";
+import { TILE_SIZE } from "./worldGenerator";
+
+// One player's connection to a multiplayer room. The screen hands it the
+// running engine and its events every frame: it sends where player one is
+// and keeps a short history of each remote player's position, so they can
+// be drawn a moment in the past, gliding between updates instead of jumping.
+// The host checks and applies the guests' block edits and sends out every
+// tile that changes in its world along with its mobs; guests send the host
+// their edits and play on whatever it sends back. A co-op partner plays
+// along locally but isn't shared.
+
+const STORAGE_KEY = "pocketcraft.net";
+const STATE_INTERVAL_MS = 66; // About 15 position updates a second
+const INTERPOLATION_DELAY_MS = 120; // Remote players are shown this far behind, a bit under two updates
+const MAX_SAMPLES = 16;
+
+export interface NetSettings {
+  url: string;
+  name: string;
+}
+
+export const loadNetSettings = (): NetSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return { url: DEFAULT_RELAY_URL, name: "Player", ...stored };
+  } catch {
+    return { url: DEFAULT_RELAY_URL, name: "Player" };
+  }
+};
+
+export const saveNetSettings = (settings: NetSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export class NetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetError";
+  }
+}
+
+export interface SessionHandlers {
+  onWorld: (bundle: ShareBundle) => void; // Guests: the host's world arrived and should be played
+  onMessage: (message: string) => void; // Status and chat lines for the log
+  onClose: (reason: string) => void;
+}
+
+interface Sample {
+  at: number; // performance.now() when it arrived
+  player: PlayerState;
+  onGround: boolean;
+  mining: boolean;
+}
+
+interface Peer {
+  name: string; // Empty until their first state arrives
+  samples: Sample[];
+}
+
+// A remote player where they should be drawn this frame
+export interface RemotePlayer {
+  id: string;
+  name: string;
+  state: PlayerState;
+  onGround: boolean;
+  mining: boolean;
+}
+
+type Edit = { from: string; player: number; mined: boolean; block: number; x: number; y: number };
+type Refund = { player: number; block: number; count: number };
+
+export class NetSession {
+  private socket: WebSocket;
+  private id: string | null = null;
+  private hostId: string | null = null;
+  private peers = new Map<string, Peer>();
+  private edits: Edit[] = []; // Host: guests' block edits, checked and applied on the next tick
+  private tiles: Tile[] = []; // Guest: the host's changed tiles, applied once its world is being played
+  private refunds: Refund[] = []; // Guest: inventory changes undone along with refused edits
+  private mobs: MobState[] | null = null; // Guest: the host's mobs as last sent
+  private joiners: string[] = []; // Host: guests waiting to be sent the world
+  private engine: GameEngine | null = null; // Engine of the last tick, to notice world switches
+  private hostBiome: BiomeConfig | null = null; // Guest: the biome the host sent last
+  private lastStateTime = -Infinity;
+  private closeReason: string | null = null;
+  readonly name: string;
+
+  constructor(readonly role: NetRole, readonly room: string, url: string, name: string, private handlers: SessionHandlers) {
+    this.name = name.trim().slice(0, MAX_NAME_LENGTH) || "Player";
+    let address: URL;
+    try {
+      address = new URL(url);
+    } catch {
+      throw new NetError(`Bad relay address: ${url}`);
+    }
+    if (address.protocol !== "ws:" && address.protocol !== "wss:") throw new NetError("The relay address must start with ws:// or wss://.");
+    address.searchParams.set("room", room);
+    address.searchParams.set("role", role);
+
+    this.socket = new WebSocket(address);
+    this.socket.onmessage = event => this.receive(event.data);
+    this.socket.onclose = () => {
+      const reason = this.closeReason ?? (this.id ? "Lost the connection to the relay." : `Could not reach the relay at ${url}.`);
+      this.handlers.onClose(reason);
+    };
+  }
+
+  get connected() {
+    return this.id !== null;
+  }
+
+  // Names of everyone else in the room who has shown up so far
+  peerNames(): string[] {
+    return [...this.peers.values()].map(peer => peer.name).filter(Boolean);
+  }
+
+  close() {
+    this.closeReason = "Left the room.";
+    this.socket.close();
+  }
+
+  chat(text: string) {
+    const line = text.trim().slice(0, MAX_CHAT_LENGTH);
+    if (!line || !this.connected) return;
+    this.send({ type: "chat", name: this.name, text: line });
+    this.handlers.onMessage(`${this.name}: ${line}`);
+  }
+
+  private send(message: NetMessage, to?: string) {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    const envelope: RelayEnvelope = to === undefined ? { data: message } : { to, data: message };
+    this.socket.send(JSON.stringify(envelope));
+  }
+
+  private receive(data: unknown) {
+    let envelope: JsonObject;
+    try {
+      envelope = asObject(JSON.parse(String(data)));
+    } catch {
+      return;
+    }
+    switch (envelope.relay) {
+      case "hello":
+        this.id = String(envelope.id);
+        this.hostId = String(envelope.host);
+        if (this.role === "guest") {
+          this.send({ type: "join", version: PROTOCOL_VERSION }, this.hostId!);
+          this.handlers.onMessage(`Joined room ${this.room}. Waiting for the world...`);
+        } else {
+          this.handlers.onMessage(`Hosting room ${this.room}.`);
+        }
+        return;
+      case "joined":
+        this.peers.set(String(envelope.id), { name: "", samples: [] });
+        return;
+      case "left": {
+        const id = String(envelope.id);
+        const peer = this.peers.get(id);
+        this.peers.delete(id);
+        if (peer?.name) this.handlers.onMessage(`${peer.name} left.`);
+        return;
+      }
+      case "error":
+        this.closeReason = String(envelope.message);
+        return;
+    }
+    const message = parseMessage(envelope.data);
+    if (typeof envelope.from === "string" && message) this.handle(envelope.from, message);
+  }
+
+  private handle(from: string, message: NetMessage) {
+    const fromHost = from === this.hostId;
+    switch (message.type) {
+      case "join":
+        if (this.role !== "host") return;
+        if (message.version === PROTOCOL_VERSION) {
+          this.joiners.push(from);
+        } else {
+          this.send({ type: "denied", reason: "The host is running a different version of the game." }, from);
+        }
+        return;
+      case "denied":
+        if (!fromHost) return;
+        this.closeReason = message.reason;
+        this.socket.close();
+        return;
+      case "world":
+        if (!fromHost || this.role !== "guest") return;
+        try {
+          const bundle = importJson(message.bundle);
+          this.hostBiome = bundle.biome;
+          this.tiles = []; // Already part of the world
+          this.refunds = [];
+          this.mobs = null;
+          this.handlers.onWorld(bundle);
+        } catch (error) {
+          this.handlers.onMessage(error instanceof ShareCodeError ? `Bad world from the host: ${error.message}` : "Bad world from the host.");
+        }
+        return;
+      case "state": {
+        const peer = this.peers.get(from) ?? { name: "", samples: [] };
+        if (!peer.name) this.handlers.onMessage(`${message.name} joined.`);
+        peer.name = message.name;
+        peer.samples.push({ at: performance.now(), player: message.player, onGround: message.onGround, mining: message.mining });
+        if (peer.samples.length > MAX_SAMPLES) peer.samples.shift();
+        this.peers.set(from, peer);
+        return;
+      }
+      case "block": {
+        const { player, mined, block, x, y } = message;
+        if (this.role === "host") this.edits.push({ from, player, mined, block, x, y });
+        return;
+      }
+      // Guests only take the host's word for what the world looks like
+      case "tiles":
+        if (fromHost && this.role === "guest") this.tiles.push(...message.tiles);
+        return;
+      case "refused":
+        if (!fromHost || this.role !== "guest") return;
+        this.tiles.push(message.tile);
+        this.refunds.push({ player: message.player, block: message.block, count: message.count });
+        return;
+      case "mobs":
+        if (fromHost && this.role === "guest") this.mobs = message.mobs;
+        return;
+      case "chat":
+        this.handlers.onMessage(`${message.name}: ${message.text}`);
+        return;
+    }
+  }
+
+  // Called by the screen every frame, after the engine has stepped
+  tick(engine: GameEngine, events: GameEvent[], now: number) {
+    if (!this.connected) return;
+    const switched = engine !== this.engine;
+    this.engine = engine;
+    const update = now - this.lastStateTime >= STATE_INTERVAL_MS;
+    if (update) this.lastStateTime = now;
+
+    if (this.role === "host") {
+      // Everyone gets the new world when the host switches, otherwise only newcomers do
+      if (switched) {
+        this.joiners = [];
+        this.sendWorld(engine);
+      }
+      for (const id of this.joiners) this.sendWorld(engine, id);
+      this.joiners = [];
+
+      // Guests' edits that don't hold up are undone: the guest is sent the
+      // tile as it is, and gets back the block it placed or loses the drop
+      for (const edit of this.edits) {
+        if (this.allowed(engine, edit)) {
+          engine.world.setBlock(edit.x, edit.y, edit.mined ? BlockType.AIR : edit.block);
+          continue;
+        }
+        const drop = edit.mined ? getBlock(edit.block).drops : edit.block;
+        this.send({
+          type: "refused", player: edit.player, tile: this.tileAt(engine, edit.x, edit.y),
+          block: drop ?? BlockType.AIR, count: drop === null ? 0 : edit.mined ? -1 : 1,
+        }, edit.from);
+      }
+      this.edits = [];
+
+      // Everything that changed in the world, from anyone's edits to fluids flowing
+      const tiles = engine.world.takeChangedTiles().map(({ x, y }) => this.tileAt(engine, x, y));
+      for (let i = 0; i < tiles.length; i += MAX_TILES) this.send({ type: "tiles", tiles: tiles.slice(i, i + MAX_TILES) });
+
+      if (update) this.sendMobs(engine);
+      engine.remoteColumns = this.guestStates().map(player => Math.floor(player.x / TILE_SIZE));
+    } else {
+      if (switched && this.hostBiome && engine.biome !== this.hostBiome) {
+        // Guests play the host's world; switching away asks for it again
+        this.send({ type: "join", version: PROTOCOL_VERSION }, this.hostId!);
+      }
+      if (engine.biome === this.hostBiome) {
+        for (const { x, y, block, level } of this.tiles) engine.world.setBlock(x, y, block, level);
+        this.tiles = [];
+        for (const refund of this.refunds) this.applyRefund(engine, refund);
+        this.refunds = [];
+        if (this.mobs) engine.mobs = this.receivedMobs(engine, this.mobs);
+        this.mobs = null;
+      }
+      // Our own edits show straight away, and the host answers with how they turned out
+      for (const event of events) {
+        if (event.type !== "mine" && event.type !== "place") continue;
+        const { player, block, x, y } = event;
+        this.send({ type: "block", player, mined: event.type === "mine", block, x, y }, this.hostId!);
+      }
+    }
+
+    if (update) {
+      const [player] = engine.players;
+      this.send({ type: "state", name: this.name, player: player.state, onGround: player.onGround, mining: player.mining !== null });
+    }
+  }
+
+  // Host: whether a guest could have made the edit in the host's world.
+  // They must be within reach of where they last said they were (give or
+  // take a tile, as that's a moment old), and mine the breakable block that
+  // is there (so a block two players mine at once only drops once) or place
+  // a placeable block over a replaceable one, where a solid block wouldn't
+  // trap anyone.
+  private allowed(engine: GameEngine, edit: Edit) {
+    const samples = this.peers.get(edit.from)?.samples ?? [];
+    if (samples.length === 0) return false;
+    const { x, y } = samples[samples.length - 1].player;
+    const distance = Math.hypot((edit.x + 0.5) * TILE_SIZE - x, (edit.y + 0.5) * TILE_SIZE - (y - PLAYER_HEIGHT * 0.5));
+    if (distance > engine.reach + TILE_SIZE) return false;
+    const current = engine.world.getBlock(edit.x, edit.y);
+    if (edit.mined) return current === edit.block && isBreakable(current);
+    // The guest already checked its own box where it really is; the host's copy is a moment old
+    const blocked = isSolid(edit.block) && engine.occupied(edit.x, edit.y, this.guestStates(edit.from));
+    return isPlaceable(edit.block) && isReplaceable(current) && !blocked;
+  }
+
+  // Host: where each guest (but `except`) last said they were
+  private guestStates(except?: string): PlayerState[] {
+    return [...this.peers]
+      .filter(([id, peer]) => id !== except && peer.samples.length > 0)
+      .map(([, peer]) => peer.samples[peer.samples.length - 1].player);
+  }
+
+  // Guest: takes back a drop, or returns a placed block, after the host refused the edit
+  private applyRefund(engine: GameEngine, { player: index, block, count }: Refund) {
+    const player = engine.players[index];
+    if (!player || count === 0) return;
+    const { inventory, state } = player;
+    if (count > 0) addItem(inventory, block, count);
+    else removeItem(inventory, block, Math.min(-count, countOf(inventory, block)));
+    if (countOf(inventory, state.selectedBlock) === 0) state.selectedBlock = nextHotbarBlock(inventory, state.selectedBlock);
+  }
+
+  private tileAt(engine: GameEngine, x: number, y: number): Tile {
+    return { x, y, block: engine.world.getBlock(x, y), level: engine.world.getLevel(x, y) };
+  }
+
+  private sendMobs(engine: GameEngine) {
+    const kinds = biomeMobs(engine.biome);
+    const mobs = engine.mobs.map(mob => ({
+      id: mob.id, kind: kinds.indexOf(mob.kind), x: mob.x, y: mob.y, facingRight: mob.facingRight, health: mob.health,
+      hurt: mob.hurtTime > 0,
+    }));
+    this.send({ type: "mobs", mobs });
+  }
+
+  // Guest: the host's mobs, to be drawn where they were
+  private receivedMobs(engine: GameEngine, mobs: MobState[]) {
+    const kinds = biomeMobs(engine.biome);
+    return mobs.filter(mob => kinds[mob.kind]).map(mob => ({
+      ...createMob(mob.id, kinds[mob.kind], mob.x, mob.y),
+      facingRight: mob.facingRight,
+      health: mob.health,
+      hurtTime: mob.hurt ? 1 : 0,
+    }));
+  }
+
+  private sendWorld(engine: GameEngine, to?: string) {
+    const bundle = createBundle(engine.biome, engine.world.modifiedChunks());
+    this.send({ type: "world", bundle: exportJson(bundle) }, to);
+  }
+
+  // Every remote player as of INTERPOLATION_DELAY_MS ago, between the two
+  // updates either side of that moment (or at the latest one if the updates
+  // have stopped coming)
+  remotePlayers(now: number): RemotePlayer[] {
+    const at = now - INTERPOLATION_DELAY_MS;
+    const players: RemotePlayer[] = [];
+    for (const [id, peer] of this.peers) {
+      const { samples } = peer;
+      if (samples.length === 0) continue;
+      const next = samples.findIndex(sample => sample.at > at);
+      const before = samples[next === -1 ? samples.length - 1 : Math.max(0, next - 1)];
+      let state = before.player;
+      if (next > 0) {
+        const after = samples[next];
+        const t = (at - before.at) / (after.at - before.at);
+        state = { ...before.player, x: before.player.x + (after.player.x - before.player.x) * t, y: before.player.y + (after.player.y - before.player.y) * t };
+      }
+      players.push({ id, name: peer.name, state, onGround: before.onGround, mining: before.mining });
+    }
+    return players;
+  }
+}
@@ -0,0 +1,165 @@
+import { FluidProperties, getBlock, isSolid } from "./blocks";
+import { ChunkStore } from "./chunkStore";
+import { CHUNK_HEIGHT, TILE_SIZE } from "./worldGenerator";
+
+// Movement and collision shared by the player and mobs. Bodies are
+// axis-aligned boxes positioned by the middle of their feet, moving in
+// pixels per simulation step.
+
+export interface Body {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface BodySize {
+  width: number;
+  height: number;
+}
+
+export const SWIM_SPEED = 2;
+export const JUMP_SPEED = 6;
+const MAX_FALL_SPEED = 16; // High enough that long falls land noticeably harder
+
+// Collision moves in slices no longer than this so fast falls can't skip a tile
+const MAX_SWEEP = TILE_SIZE / 4;
+// Boxes that merely touch don't overlap
+const EPSILON = 0.01;
+
+// Does a box of `size` with its feet at (x, y) overlap anything solid?
+export const collides = (world: ChunkStore, size: BodySize, x: number, y: number) => {
+  const left = Math.floor((x - size.width / 2 + EPSILON) / TILE_SIZE);
+  const right = Math.floor((x + size.width / 2 - EPSILON) / TILE_SIZE);
+  const top = Math.floor((y - size.height + EPSILON) / TILE_SIZE);
+  const bottom = Math.floor((y - EPSILON) / TILE_SIZE);
+
+  // Check world bounds (the world is infinite horizontally)
+  if (bottom >= CHUNK_HEIGHT) return true;
+
+  for (let ty = Math.max(top, 0); ty <= bottom; ty++) {
+    for (let tx = left; tx <= right; tx++) {
+      if (isSolid(world.getBlock(tx, ty))) return true;
+    }
+  }
+  return false;
+};
+
+// Does the tile overlap the body's box?
+export const overlapsTile = (body: Body, size: BodySize, tx: number, ty: number) =>
+  body.x + size.width / 2 - EPSILON > tx * TILE_SIZE && body.x - size.width / 2 + EPSILON < (tx + 1) * TILE_SIZE &&
+  body.y - EPSILON > ty * TILE_SIZE && body.y - size.height + EPSILON < (ty + 1) * TILE_SIZE;
+
+// Do two bodies' boxes overlap?
+export const overlapsBody = (a: Body, aSize: BodySize, b: Body, bSize: BodySize) =>
+  Math.abs(a.x - b.x) < (aSize.width + bSize.width) / 2 &&
+  a.y - aSize.height < b.y && b.y - bSize.height < a.y;
+
+// Does the line from (x0, y0) to (x1, y1) cross the body's box?
+export const segmentHitsBody = (x0: number, y0: number, x1: number, y1: number, body: Body, size: BodySize) => {
+  let enter = 0;
+  let exit = 1;
+  const slabs: [number, number, number, number][] = [
+    [x0, x1 - x0, body.x - size.width / 2, body.x + size.width / 2],
+    [y0, y1 - y0, body.y - size.height, body.y],
+  ];
+  for (const [start, delta, min, max] of slabs) {
+    if (delta === 0) {
+      if (start < min || start > max) return false;
+      continue;
+    }
+    const t1 = (min - start) / delta;
+    const t2 = (max - start) / delta;
+    enter = Math.max(enter, Math.min(t1, t2));
+    exit = Math.min(exit, Math.max(t1, t2));
+  }
+  return enter <= exit;
+};
+
+// Fluid at the middle of the body, if any
+export const fluidAt = (world: ChunkStore, body: Body, size: BodySize): FluidProperties | undefined =>
+  getBlock(world.getBlock(Math.floor(body.x / TILE_SIZE), Math.floor((body.y - size.height * 0.5) / TILE_SIZE))).fluid;
+
+// Move vertically, stopping flush against the first solid tile.
+// Returns true if something was hit.
+const sweepY = (world: ChunkStore, body: Body, size: BodySize, dy: number) => {
+  let remaining = dy;
+  while (remaining !== 0) {
+    const move = Math.max(-MAX_SWEEP, Math.min(MAX_SWEEP, remaining));
+    remaining -= move;
+    const y = body.y + move;
+    if (!collides(world, size, body.x, y)) {
+      body.y = y;
+      continue;
+    }
+    // Rest the feet on the tile top, or the head against the tile bottom
+    body.y = move > 0
+      ? Math.floor((y - EPSILON) / TILE_SIZE) * TILE_SIZE
+      : (Math.floor((y - size.height + EPSILON) / TILE_SIZE) + 1) * TILE_SIZE + size.height;
+    return true;
+  }
+  return false;
+};
+
+// Horizontal counterpart of sweepY
+const sweepX = (world: ChunkStore, body: Body, size: BodySize, dx: number) => {
+  let remaining = dx;
+  while (remaining !== 0) {
+    const move = Math.max(-MAX_SWEEP, Math.min(MAX_SWEEP, remaining));
+    remaining -= move;
+    const x = body.x + move;
+    if (!collides(world, size, x, body.y)) {
+      body.x = x;
+      continue;
+    }
+    body.x = move > 0
+      ? Math.floor((x + size.width / 2 - EPSILON) / TILE_SIZE) * TILE_SIZE - size.width / 2
+      : (Math.floor((x - size.width / 2 + EPSILON) / TILE_SIZE) + 1) * TILE_SIZE + size.width / 2;
+    return true;
+  }
+  return false;
+};
+
+// Advance a body by one step: walk in `direction` (-1, 0 or 1) at `speed`,
+// fall under gravity (fluids carry part of the weight and slow everything
+// down), swim up when `swimUp` is set, then collide. Jumping is left to the
+// caller since the player and mobs decide when to jump differently.
+export const stepBody = (
+  world: ChunkStore, body: Body, size: BodySize, gravity: number, direction: number, speed: number, swimUp: boolean,
+) => {
+  const fluid = fluidAt(world, body, size);
+
+  if (direction !== 0) {
+    body.vx = direction * speed * (fluid ? 1 - fluid.drag : 1);
+  } else {
+    body.vx *= 0.8; // Friction
+  }
+
+  body.vy += gravity * (fluid ? 1 - fluid.buoyancy : 1);
+  body.vy = Math.min(body.vy, fluid ? SWIM_SPEED : MAX_FALL_SPEED); // Terminal velocity
+  if (swimUp && fluid) {
+    body.vy = Math.max(body.vy - gravity * 2, -SWIM_SPEED);
+  }
+
+  // Vertical first, so walking along the ground never catches on tile seams
+  if (sweepY(world, body, size, body.vy)) {
+    body.vy = 0;
+  }
+  const onGround = body.vy >= 0 && collides(world, size, body.x, body.y + EPSILON * 2);
+
+  let hitWall = false;
+  if (sweepX(world, body, size, body.vx)) {
+    // Walk up single-block steps instead of stopping dead
+    const stepY = body.y - TILE_SIZE;
+    const side = Math.sign(body.vx);
+    if (onGround && !collides(world, size, body.x, stepY) && !collides(world, size, body.x + side, stepY)) {
+      body.y = stepY;
+      sweepX(world, body, size, body.vx);
+    } else {
+      body.vx = 0;
+      hitWall = true;
+    }
+  }
+
+  return { onGround, hitWall, fluid };
+};
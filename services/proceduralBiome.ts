@@ -0,0 +1,150 @@
+import { BIOME_LIMITS, BiomeConfig, BiomeMusic, BlockType, DEFAULT_BIOME, DEFAULT_MUSIC } from "../types";
+import { createRng, hashString } from "./random";
+
+// Offline stand-in for the AI: themes are picked by keywords in the prompt
+// and layered on top of the default biome, then every number is nudged a
+// little. The prompt alone decides the result, so the same words always
+// build the same world.
+
+const TUNABLES = [
+  "gravity", "terrainRoughness", "treeDensity", "caveDensity", "oreFrequency", "waterLevel", "dayLength", "ambientLight",
+] as const;
+type Tunable = typeof TUNABLES[number];
+
+interface Theme {
+  keywords: string[]; // Matched against the start of each word, so "dune" also finds "dunes"
+  skyColor?: string;
+  blockColors?: BiomeConfig["blockColors"];
+  settings?: Partial<Pick<BiomeConfig, Tunable>>;
+  music?: Partial<BiomeMusic>;
+}
+
+// Later themes win where they overlap, so "mars colony" is space, then red
+const THEMES: Theme[] = [
+  {
+    keywords: ["plain", "meadow", "farm", "prairie", "field"],
+    settings: { terrainRoughness: 0.1, treeDensity: 0.05 },
+  },
+  {
+    keywords: ["mountain", "peak", "cliff", "alp", "canyon", "highland"],
+    settings: { terrainRoughness: 1, caveDensity: 0.5 },
+  },
+  {
+    keywords: ["jungle", "forest", "rainforest", "wood", "swamp", "grove"],
+    skyColor: "#9FD8B0",
+    blockColors: { [BlockType.LEAVES]: "#1E7A2E", [BlockType.GRASS]: "#2E9E3E", [BlockType.WATER]: "#3D7A5A" },
+    settings: { treeDensity: 0.3, waterLevel: 0.6 },
+    music: { scale: "dorian", tempo: 110, drums: 0.6 },
+  },
+  {
+    keywords: ["ocean", "sea", "island", "beach", "flood", "lake", "atlantis", "water"],
+    skyColor: "#7EC8F0",
+    blockColors: { [BlockType.GRASS]: "#E8D9A0", [BlockType.DIRT]: "#D8C48A" },
+    settings: { waterLevel: 0.95, terrainRoughness: 0.6, treeDensity: 0.05 },
+    music: { scale: "major", tempo: 90, lead: "triangle", drums: 0.2 },
+  },
+  {
+    keywords: ["desert", "sand", "dune", "arid", "sahara", "oasis"],
+    skyColor: "#F4D58D",
+    blockColors: { [BlockType.GRASS]: "#E6C67A", [BlockType.DIRT]: "#D2B48C", [BlockType.STONE]: "#C2A477" },
+    settings: { treeDensity: 0.02, waterLevel: 0.05, dayLength: 600 },
+    music: { scale: "phrygian", tempo: 95, rootNote: 52 },
+  },
+  {
+    keywords: ["snow", "ice", "frozen", "winter", "arctic", "tundra", "glacier", "frost"],
+    skyColor: "#DDEEFF",
+    blockColors: {
+      [BlockType.GRASS]: "#F8FBFF", [BlockType.DIRT]: "#B9C7D6", [BlockType.STONE]: "#8FA3B8",
+      [BlockType.LEAVES]: "#C8E0E8", [BlockType.WATER]: "#A8D8F0",
+    },
+    settings: { treeDensity: 0.08, dayLength: 360 },
+    music: { scale: "pentatonic", tempo: 72, lead: "triangle", bass: "sine", drums: 0.1 },
+  },
+  {
+    keywords: ["space", "moon", "lunar", "planet", "alien", "asteroid", "galaxy", "star", "colony"],
+    skyColor: "#0B0B2A",
+    blockColors: { [BlockType.GRASS]: "#9E9E9E", [BlockType.DIRT]: "#7A7A7A", [BlockType.STONE]: "#5A5A6A" },
+    settings: { gravity: 0.2, treeDensity: 0, waterLevel: 0, ambientLight: 0.2 },
+    music: { scale: "dorian", tempo: 80, lead: "sine", drums: 0.2 },
+  },
+  {
+    keywords: ["mars", "red", "rust"],
+    skyColor: "#D9825B",
+    blockColors: { [BlockType.GRASS]: "#C1502E", [BlockType.DIRT]: "#A0472B", [BlockType.STONE]: "#7A3B2A" },
+    settings: { gravity: 0.3, treeDensity: 0, waterLevel: 0 },
+  },
+  {
+    keywords: ["candy", "sweet", "sugar", "chocolate", "cake", "dessert", "lollipop"],
+    skyColor: "#FFD1EC",
+    blockColors: {
+      [BlockType.GRASS]: "#FF8AD8", [BlockType.DIRT]: "#8B4A2B", [BlockType.STONE]: "#F5E6FF",
+      [BlockType.WOOD]: "#FFF4F4", [BlockType.LEAVES]: "#FF5FA2", [BlockType.WATER]: "#C9F0FF", [BlockType.LAVA]: "#FF2D7A",
+    },
+    settings: { terrainRoughness: 0.3, treeDensity: 0.2 },
+    music: { scale: "major", tempo: 150, rootNote: 60, drums: 0.5 },
+  },
+  {
+    keywords: ["hell", "nether", "lava", "volcano", "inferno", "fire", "magma", "demon"],
+    skyColor: "#3A0A05",
+    blockColors: { [BlockType.GRASS]: "#5A1A10", [BlockType.DIRT]: "#4A2A20", [BlockType.STONE]: "#3A3030", [BlockType.LEAVES]: "#8A2A10" },
+    settings: { treeDensity: 0.02, waterLevel: 0, caveDensity: 0.7, ambientLight: 0.15 },
+    music: { scale: "phrygian", tempo: 170, rootNote: 45, lead: "sawtooth", bass: "square", drums: 0.9 },
+  },
+  {
+    keywords: ["radioactive", "toxic", "nuclear", "wasteland", "apocalypse", "mutant", "acid"],
+    skyColor: "#B5C94A",
+    blockColors: { [BlockType.GRASS]: "#6B8E23", [BlockType.DIRT]: "#5A5230", [BlockType.WATER]: "#7FFF00", [BlockType.LEAVES]: "#8DB600" },
+    settings: { treeDensity: 0.02, oreFrequency: 0.8 },
+    music: { scale: "blues", tempo: 120, lead: "sawtooth", drums: 0.7 },
+  },
+  {
+    keywords: ["crystal", "gem", "gold", "treasure", "mine", "diamond", "rich"],
+    blockColors: { [BlockType.ORE]: "#7FF3FF" },
+    settings: { oreFrequency: 1, caveDensity: 0.6 },
+  },
+  {
+    keywords: ["haunted", "spooky", "dark", "night", "horror", "ghost", "cave", "underground", "shadow"],
+    skyColor: "#1A1A2E",
+    blockColors: { [BlockType.GRASS]: "#3A4A3A", [BlockType.LEAVES]: "#2A3A2A" },
+    settings: { ambientLight: 0.02, caveDensity: 0.8, dayLength: 240 },
+    music: { scale: "minor", tempo: 66, lead: "triangle", bass: "sine", drums: 0 },
+  },
+];
+
+// How far each setting may drift from the theme value, as a fraction of its range
+const JITTER = 0.08;
+
+const titleCase = (text: string) =>
+  text.trim().split(/\s+/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export const proceduralBiome = (prompt: string): BiomeConfig => {
+  const text = prompt.trim().toLowerCase();
+  const words = text.split(/[^a-z]+/).filter(Boolean);
+  const matches = (keyword: string) => words.some(word => word.startsWith(keyword));
+
+  const seed = hashString(text);
+  const rng = createRng(seed);
+  const biome: BiomeConfig = {
+    ...DEFAULT_BIOME,
+    name: titleCase(prompt).slice(0, 32) || DEFAULT_BIOME.name,
+    blockColors: { ...DEFAULT_BIOME.blockColors },
+    music: { ...DEFAULT_MUSIC },
+    seed,
+  };
+
+  for (const theme of THEMES) {
+    if (!theme.keywords.some(matches)) continue;
+    if (theme.skyColor) biome.skyColor = theme.skyColor;
+    Object.assign(biome.blockColors, theme.blockColors);
+    Object.assign(biome, theme.settings);
+    Object.assign(biome.music!, theme.music);
+  }
+
+  for (const field of TUNABLES) {
+    const { min, max } = BIOME_LIMITS[field];
+    const value = biome[field] + (rng() * 2 - 1) * JITTER * (max - min);
+    biome[field] = Math.max(min, Math.min(max, value));
+  }
+  biome.dayLength = Math.round(biome.dayLength);
+  return biome;
+};
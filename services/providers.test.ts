@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BiomeGenerationError, MAX_ATTEMPTS, generateBiome } from "./biomeService";
+import { fixtureGenerator } from "./providers";
+
+const signal = new AbortController().signal;
+
+describe("fixtureGenerator", () => {
+  it("replays answers by prompt, ignoring case and spacing", async () => {
+    const generator = fixtureGenerator({ "Lava Caves": { name: "Lava Caves", seed: 42 } });
+    const biome = await generator.generate("  lava caves ", signal);
+    expect(biome.name).toBe("Lava Caves");
+    expect(biome.seed).toBe(42);
+  });
+
+  it("falls back to the * answer", async () => {
+    const generator = fixtureGenerator({ "Lava Caves": { name: "Lava Caves" }, "*": { name: "Anywhere" } });
+    expect((await generator.generate("Frozen Lake", signal)).name).toBe("Anywhere");
+  });
+
+  it("treats string answers as raw model output", async () => {
+    const generator = fixtureGenerator({ "*": 'Sure! ```json\n{"name": "Fenced", "gravity": 99}\n```' });
+    const biome = await generator.generate("anything", signal);
+    expect(biome.name).toBe("Fenced");
+    expect(biome.gravity).toBeLessThan(99); // Clamped to the limits
+  });
+});
+
+describe("generateBiome", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries garbled answers, then gives up", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const onRetry = vi.fn();
+    const result = generateBiome(fixtureGenerator({ "*": "no json here" }), "anything", { onRetry });
+    const failed = expect(result).rejects.toThrow("The answer contained no JSON.");
+    await vi.runAllTimersAsync();
+    await failed;
+    expect(onRetry).toHaveBeenCalledTimes(MAX_ATTEMPTS - 1);
+  });
+
+  it("doesn't retry a prompt without a fixture", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const onRetry = vi.fn();
+    const result = generateBiome(fixtureGenerator({}), "anything", { onRetry });
+    await expect(result).rejects.toBeInstanceOf(BiomeGenerationError);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import { GoogleGenAI } from "@google/genai";
+import {
+  BIOME_SCHEMA, BiomeGenerationError, BiomeGenerator, biomePrompt, parseBiome, parseBiomeText, statusError, toJsonSchema,
+} from "./biomeService";
+import { proceduralBiome } from "./proceduralBiome";
+
+// Who answers biome prompts is a player setting: Gemini, any server speaking
+// the OpenAI chat completions API (llama.cpp, Ollama, ...), recorded fixtures
+// for tests, or the offline keyword generator.
+
+export type ProviderKind = "gemini" | "openai" | "fixture" | "offline";
+
+export const PROVIDER_KINDS: ProviderKind[] = ["gemini", "openai", "fixture", "offline"];
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: "Gemini",
+  openai: "OpenAI-compatible",
+  fixture: "Fixture replay",
+  offline: "Offline",
+};
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  model: string;
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  apiKey: string; // Empty means the build-time Gemini key, or no Authorization header
+  fixtures: string; // JSON object mapping prompts (or "*") to recorded answers
+}
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "llama3.1",
+  fixture: "",
+  offline: "",
+};
+
+const BUILD_API_KEY = process.env.API_KEY || "";
+
+export const DEFAULT_PROVIDER: ProviderSettings = {
+  kind: BUILD_API_KEY ? "gemini" : "offline",
+  model: DEFAULT_MODELS.gemini,
+  endpoint: "http://localhost:11434/v1",
+  apiKey: "",
+  fixtures: "{}",
+};
+
+const STORAGE_KEY = "pocketcraft.provider";
+
+// --- Persisted settings ---
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    if (stored && PROVIDER_KINDS.includes(stored.kind)) return { ...DEFAULT_PROVIDER, ...stored };
+  } catch (error) {
+    console.error("Bad stored provider settings:", error);
+  }
+  return DEFAULT_PROVIDER;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- Providers ---
+
+const geminiGenerator = (apiKey: string, model: string): BiomeGenerator => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    label: "Gemini",
+    offline: false,
+    generate: async (prompt, signal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: biomePrompt(prompt),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: BIOME_SCHEMA,
+          abortSignal: signal,
+        },
+      });
+      return parseBiomeText(response.text || "");
+    },
+  };
+};
+
+const openAiGenerator = (endpoint: string, apiKey: string, model: string): BiomeGenerator => {
+  let label: string;
+  try {
+    label = new URL(endpoint).host;
+  } catch {
+    throw new BiomeGenerationError("The endpoint must be a full URL, e.g. http://localhost:11434/v1");
+  }
+  return {
+    label,
+    offline: false,
+    generate: async (prompt, signal) => {
+      const response = await fetch(`${endpoint.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: "You design game biomes and answer with a single JSON object." },
+            { role: "user", content: biomePrompt(prompt) },
+          ],
+          response_format: { type: "json_schema", json_schema: { name: "biome", schema: toJsonSchema(BIOME_SCHEMA) } },
+        }),
+        signal,
+      });
+      if (!response.ok) throw statusError(label, response.status);
+      const data = await response.json();
+      return parseBiomeText(String(data?.choices?.[0]?.message?.content ?? ""));
+    },
+  };
+};
+
+// Replays recorded answers by prompt (case-insensitive), falling back to "*".
+// A string answer is treated as raw model output, so malformed replies can be
+// replayed too.
+export const fixtureGenerator = (fixtures: Record<string, unknown>): BiomeGenerator => {
+  const answers = new Map(Object.entries(fixtures).map(([prompt, answer]) => [prompt.trim().toLowerCase(), answer]));
+  return {
+    label: "Fixtures",
+    offline: true,
+    generate: async prompt => {
+      const answer = answers.get(prompt.trim().toLowerCase()) ?? answers.get("*");
+      if (answer === undefined) throw new BiomeGenerationError(`No fixture for "${prompt}".`);
+      return typeof answer === "string" ? parseBiomeText(answer) : parseBiome(answer);
+    },
+  };
+};
+
+const offlineGenerator: BiomeGenerator = {
+  label: "Offline generator",
+  offline: true,
+  generate: async prompt => proceduralBiome(prompt),
+};
+
+// Gemini without a key falls back to the offline generator rather than failing
+export const createGenerator = (settings: ProviderSettings): BiomeGenerator => {
+  const model = settings.model.trim() || DEFAULT_MODELS[settings.kind];
+  switch (settings.kind) {
+    case "gemini": {
+      const apiKey = settings.apiKey.trim() || BUILD_API_KEY;
+      return apiKey ? geminiGenerator(apiKey, model) : offlineGenerator;
+    }
+    case "openai":
+      return openAiGenerator(settings.endpoint.trim(), settings.apiKey.trim(), model);
+    case "fixture": {
+      let fixtures: unknown;
+      try {
+        fixtures = JSON.parse(settings.fixtures);
+      } catch {
+        throw new BiomeGenerationError("Fixtures aren't valid JSON.");
+      }
+      if (!fixtures || typeof fixtures !== "object" || Array.isArray(fixtures)) {
+        throw new BiomeGenerationError("Fixtures must be a JSON object of prompt to answer.");
+      }
+      return fixtureGenerator(fixtures as Record<string, unknown>);
+    }
+    case "offline":
+      return offlineGenerator;
+  }
+};
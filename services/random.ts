@@ -0,0 +1,107 @@
+// Deterministic randomness for world generation.
+// Everything here is a pure function of (seed, coordinates), so the same seed
+// always reproduces the same world no matter in which order tiles are generated.
+
+const MAX_SEED = 0xFFFFFFFF;
+
+// Fresh seed for a newly generated biome
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+// Accepts either a plain number ("1337") or any text ("candy"), which is hashed
+export const parseSeed = (input: string): number | null => {
+  const text = input.trim();
+  if (!text) return null;
+  if (/^\d+$/.test(text) && Number(text) <= MAX_SEED) return Number(text) >>> 0;
+  return hashString(text);
+};
+
+// FNV-1a
+export const hashString = (text: string): number => {
+  let h = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Mulberry32 - small, fast sequential PRNG returning floats in [0, 1)
+export const createRng = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Stateless hash of an integer lattice point, returns a float in [0, 1)
+export const hash2D = (seed: number, x: number, y: number): number => {
+  let h = seed ^ Math.imul(x | 0, 0x27D4EB2D) ^ Math.imul(y | 0, 0x165667B1);
+  h = Math.imul(h ^ (h >>> 15), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+// Derive an independent seed for a sub-generator (trees, ores, ...)
+export const deriveSeed = (seed: number, salt: string): number => (seed ^ hashString(salt)) >>> 0;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// 1D value noise in [-1, 1]
+export const valueNoise1D = (seed: number, x: number): number => {
+  const x0 = Math.floor(x);
+  const t = smoothstep(x - x0);
+  const a = hash2D(seed, x0, 0);
+  const b = hash2D(seed, x0 + 1, 0);
+  return (a + (b - a) * t) * 2 - 1;
+};
+
+// Layered (fractal) 1D noise in [-1, 1]. Each octave doubles the frequency
+// and scales the amplitude by `persistence`.
+export const fractalNoise1D = (seed: number, x: number, octaves: number, persistence: number): number => {
+  let total = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let max = 0;
+  for (let i = 0; i < octaves; i++) {
+    total += valueNoise1D(seed + i * 1013, x * frequency) * amplitude;
+    max += amplitude;
+    amplitude *= persistence;
+    frequency *= 2;
+  }
+  return total / max;
+};
+
+// 2D value noise in [-1, 1]
+export const valueNoise2D = (seed: number, x: number, y: number): number => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smoothstep(x - x0);
+  const ty = smoothstep(y - y0);
+  const a = hash2D(seed, x0, y0);
+  const b = hash2D(seed, x0 + 1, y0);
+  const c = hash2D(seed, x0, y0 + 1);
+  const d = hash2D(seed, x0 + 1, y0 + 1);
+  const top = a + (b - a) * tx;
+  const bottom = c + (d - c) * tx;
+  return (top + (bottom - top) * ty) * 2 - 1;
+};
+
+// Layered (fractal) 2D noise in [-1, 1]
+export const fractalNoise2D = (seed: number, x: number, y: number, octaves: number, persistence: number): number => {
+  let total = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let max = 0;
+  for (let i = 0; i < octaves; i++) {
+    total += valueNoise2D(seed + i * 1013, x * frequency, y * frequency) * amplitude;
+    max += amplitude;
+    amplitude *= persistence;
+    frequency *= 2;
+  }
+  return total / max;
+};
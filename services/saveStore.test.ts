@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_BIOME } from "../types";
+import { createStartingInventory } from "./inventory";
+import { SAVE_VERSION, createSave, migrateSave } from "./saveStore";
+import { createSpawnPlayer } from "./worldGenerator";
+
+const save = () => createSave("Home", {
+  biome: DEFAULT_BIOME,
+  player: createSpawnPlayer(),
+  inventory: createStartingInventory(),
+  chunks: [],
+});
+
+describe("migrateSave", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("loads a current save as it was written", () => {
+    const written = save();
+    expect(migrateSave(JSON.parse(JSON.stringify(written)))).toEqual(written);
+  });
+
+  it("fills in fields older versions didn't have", () => {
+    const { health, hunger, ...player } = createSpawnPlayer();
+    const { dayLength, ambientLight, ...biome } = DEFAULT_BIOME;
+    const migrated = migrateSave({ ...save(), version: 3, biome, player });
+    expect(migrated.version).toBe(SAVE_VERSION);
+    expect(migrated.player.health).toBe(health);
+    expect(migrated.biome.dayLength).toBe(dayLength);
+  });
+
+  it("skips a save that is missing its biome", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(migrateSave({ ...save(), biome: null })).toBeNull();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("biome"));
+  });
+});
@@ -0,0 +1,248 @@
+import { BiomeConfig, BlockType, DEFAULT_BIOME, Inventory, PlayerState } from "../types";
+import { MAX_FLUID_LEVEL, blockFromKey, blockKey, isFluid } from "./blocks";
+import { Chunk, createChunk } from "./chunkStore";
+import { JsonObject, asObject, fieldChecker, isBoolean, isInteger, isNumber, isObject, isString } from "./validation";
+import { CHUNK_HEIGHT, CHUNK_WIDTH, MAX_HEALTH, MAX_HUNGER } from "./worldGenerator";
+
+// Bump when the saved shape changes and add a step to `migrateSave`
+export const SAVE_VERSION = 6;
+export const SAVE_SLOTS = 4;
+
+const STORAGE_PREFIX = "pocketcraft.save.";
+
+// Only chunks the player edited are stored, everything else is regenerated
+// from the biome seed. Rows are run-length encoded as "paletteIndex:count"
+// runs, and the palette stores block *names* rather than enum values so that
+// adding or reordering block types never corrupts an old save. Chunks with
+// partly filled fluid tiles also keep their levels, encoded the same way with
+// the level itself in place of the palette index.
+export interface SavedChunk {
+  index: number;
+  rows: string[];
+  levels?: string[];
+}
+
+export interface SavedGame {
+  version: number;
+  name: string;
+  savedAt: number;
+  biome: BiomeConfig;
+  player: PlayerState;
+  inventory: Record<string, number>; // Block name => count
+  palette: string[];
+  chunks: SavedChunk[];
+}
+
+export interface SaveSummary {
+  slot: number;
+  name: string;
+  savedAt: number;
+  biomeName: string;
+}
+
+export interface GameSnapshot {
+  biome: BiomeConfig;
+  player: PlayerState;
+  inventory: Inventory;
+  chunks: Chunk[];
+}
+
+export const encodeRow = (row: number[], paletteIndex: (block: number) => number): string => {
+  const runs: string[] = [];
+  let start = 0;
+  for (let x = 1; x <= row.length; x++) {
+    if (x === row.length || row[x] !== row[start]) {
+      runs.push(`${paletteIndex(row[start])}:${x - start}`);
+      start = x;
+    }
+  }
+  return runs.join(",");
+};
+
+export const decodeRow = (encoded: string, palette: number[]): number[] => {
+  const row: number[] = [];
+  for (const run of encoded.split(",")) {
+    const [index, count] = run.split(":").map(Number);
+    const block = palette[index] ?? BlockType.AIR;
+    for (let i = 0; i < count && row.length < CHUNK_WIDTH; i++) row.push(block);
+  }
+  while (row.length < CHUNK_WIDTH) row.push(BlockType.AIR);
+  return row;
+};
+
+export const serializeChunks = (chunks: Chunk[]): { palette: string[]; chunks: SavedChunk[] } => {
+  const palette: string[] = [];
+  const paletteIndex = (block: number) => {
+    const name = blockKey(block);
+    let index = palette.indexOf(name);
+    if (index === -1) index = palette.push(name) - 1;
+    return index;
+  };
+  const partial = (chunk: Chunk) => chunk.levels.some((row, y) =>
+    row.some((level, x) => isFluid(chunk.blocks[y][x]) && level < MAX_FLUID_LEVEL));
+  return {
+    palette,
+    chunks: chunks.map(chunk => ({
+      index: chunk.index,
+      rows: chunk.blocks.map(row => encodeRow(row, paletteIndex)),
+      ...(partial(chunk) && { levels: chunk.levels.map(row => encodeRow(row, level => level)) }),
+    })),
+  };
+};
+
+// Decoding levels through a palette of the levels themselves
+const LEVELS = Array.from({ length: MAX_FLUID_LEVEL + 1 }, (_, level) => level);
+
+export const deserializeChunks = (palette: string[], chunks: SavedChunk[]): Chunk[] => {
+  // Unknown names (blocks from a newer build, or since removed) load as air
+  const blocks = palette.map(blockFromKey);
+  return chunks.map(chunk => {
+    const rows: number[][] = [];
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+      rows[y] = decodeRow(chunk.rows[y] ?? "", blocks);
+    }
+    const levels = chunk.levels?.map(row => decodeRow(row, LEVELS));
+    return createChunk(chunk.index, rows, true, levels);
+  });
+};
+
+export const serializeInventory = (inventory: Inventory): Record<string, number> => {
+  const items: Record<string, number> = {};
+  for (const [block, count] of Object.entries(inventory)) {
+    if (count) items[blockKey(Number(block))] = count;
+  }
+  return items;
+};
+
+export const deserializeInventory = (items: Record<string, number>): Inventory => {
+  const inventory: Inventory = {};
+  for (const [name, count] of Object.entries(items)) {
+    const block = blockFromKey(name);
+    if (block !== BlockType.AIR && count > 0) inventory[block] = count;
+  }
+  return inventory;
+};
+
+export const createSave = (name: string, snapshot: GameSnapshot): SavedGame => {
+  const { palette, chunks } = serializeChunks(snapshot.chunks);
+  return {
+    version: SAVE_VERSION,
+    name,
+    savedAt: Date.now(),
+    biome: snapshot.biome,
+    player: { ...snapshot.player },
+    inventory: serializeInventory(snapshot.inventory),
+    palette,
+    chunks,
+  };
+};
+
+// Brings an older save up to the current schema, or rejects it
+export const migrateSave = (raw: unknown): SavedGame | null => {
+  if (!isObject(raw) || typeof raw.version !== "number") return null;
+  const { version } = raw;
+  if (version > SAVE_VERSION) {
+    console.warn(`Save "${raw.name}" is from a newer version (${version}), loading what we understand.`);
+  }
+  let save = raw;
+  // v1 stored a fixed list of placeable blocks without counts
+  if (version < 2) {
+    save = { ...save, version: 2, inventory: {} };
+  }
+  // v3 added caves, ores, water and strata to the biome
+  if (version < 3) {
+    const { caveDensity, oreFrequency, waterLevel, strata } = DEFAULT_BIOME;
+    save = { ...save, version: 3, biome: { caveDensity, oreFrequency, waterLevel, strata, ...asObject(save.biome) } };
+  }
+  // v4 added the day/night cycle
+  if (version < 4) {
+    const { dayLength, ambientLight } = DEFAULT_BIOME;
+    save = { ...save, version: 4, biome: { dayLength, ambientLight, ...asObject(save.biome) } };
+  }
+  // v5 gave the player health and hunger
+  if (version < 5) {
+    save = { ...save, version: 5, player: { health: MAX_HEALTH, hunger: MAX_HUNGER, ...asObject(save.player) } };
+  }
+  // v6 kept partly filled fluid tiles; older saves load their fluids full
+  if (version < 6) {
+    save = { ...save, version: 6 };
+  }
+  return checkSave(save);
+};
+
+const isStrings = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isSavedChunk = (value: unknown): value is SavedChunk => {
+  const { index, rows, levels } = asObject(value);
+  return isInteger(index) && isStrings(rows) && (levels === undefined || isStrings(levels));
+};
+
+// Only the fields the game reads straight away are checked; the rest of the
+// biome and player come from the game that wrote them
+const isSavedBiome = (value: unknown): value is BiomeConfig => {
+  const { name, seed, strata } = asObject(value);
+  return isString(name) && isInteger(seed) && Array.isArray(strata);
+};
+
+const isSavedPlayer = (value: unknown): value is PlayerState => {
+  const { x, y, vx, vy, facingRight, health, hunger } = asObject(value);
+  return [x, y, vx, vy, health, hunger].every(isNumber) && isBoolean(facingRight);
+};
+
+const isSavedInventory = (value: unknown): value is Record<string, number> =>
+  isObject(value) && Object.values(value).every(isNumber);
+
+// Anyone can edit localStorage, so a slot that doesn't have the current shape
+// after migrating is reported and skipped rather than crashing the game
+const checkSave = (save: JsonObject): SavedGame | null => {
+  const problems: string[] = [];
+  const check = fieldChecker(problems);
+  const valid: SavedGame = {
+    version: SAVE_VERSION,
+    name: check("name", save.name, isString),
+    savedAt: check("savedAt", save.savedAt, isNumber),
+    biome: check("biome", save.biome, isSavedBiome),
+    player: check("player", save.player, isSavedPlayer),
+    inventory: check("inventory", save.inventory, isSavedInventory),
+    palette: check("palette", save.palette, isStrings),
+    chunks: check("chunks", save.chunks, (value): value is SavedChunk[] => Array.isArray(value) && value.every(isSavedChunk)),
+  };
+  if (problems.length) {
+    console.error(`Save "${save.name}" has bad ${problems.join("/")}, skipping it.`);
+    return null;
+  }
+  return valid;
+};
+
+export const writeSave = (slot: number, save: SavedGame) => {
+  localStorage.setItem(STORAGE_PREFIX + slot, JSON.stringify(save));
+};
+
+export const readSave = (slot: number): SavedGame | null => {
+  const json = localStorage.getItem(STORAGE_PREFIX + slot);
+  if (!json) return null;
+  try {
+    return migrateSave(JSON.parse(json));
+  } catch (error) {
+    console.error(`Corrupt save in slot ${slot}:`, error);
+    return null;
+  }
+};
+
+export const deleteSave = (slot: number) => {
+  localStorage.removeItem(STORAGE_PREFIX + slot);
+};
+
+export const listSaves = (): (SaveSummary | null)[] => {
+  const summaries: (SaveSummary | null)[] = [];
+  for (let slot = 0; slot < SAVE_SLOTS; slot++) {
+    const save = readSave(slot);
+    summaries.push(save && {
+      slot,
+      name: save.name,
+      savedAt: save.savedAt,
+      biomeName: save.biome.name,
+    });
+  }
+  return summaries;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { BiomeConfig, BlockType, DEFAULT_BIOME } from "../types";
+import { ShareCodeError, createBundle, decodeShareCode, encodeShareCode, exportJson, importJson } from "./shareCode";
+
+const BIOME: BiomeConfig = {
+  ...DEFAULT_BIOME,
+  strata: [{ block: BlockType.DIRT, thickness: 3 }, { block: BlockType.STONE, thickness: 4 }],
+  recipes: [{
+    output: { block: BlockType.STONE, count: 2 },
+    inputs: [{ block: BlockType.DIRT, count: 1 }],
+    station: BlockType.WORKBENCH,
+  }],
+};
+
+// Exports BIOME and lets the test tamper with the file before importing it
+const exported = (edit: (biome: Record<string, any>) => void) => {
+  const file = JSON.parse(exportJson(createBundle(BIOME)));
+  edit(file.biome);
+  return JSON.stringify(file);
+};
+
+describe("share codes", () => {
+  it("round-trip strata and recipes", () => {
+    const { biome } = decodeShareCode(encodeShareCode(createBundle(BIOME)));
+    expect(biome.strata).toEqual(BIOME.strata);
+    expect(biome.recipes).toEqual(BIOME.recipes);
+  });
+
+  it("reject block names in the wrong case instead of loading them as air", () => {
+    expect(() => importJson(exported(biome => { biome.strata[0].block = "dirt"; }))).toThrow(ShareCodeError);
+    expect(() => importJson(exported(biome => { biome.recipes[0].inputs[0].block = "dirt"; }))).toThrow(ShareCodeError);
+    expect(() => importJson(exported(biome => { biome.recipes[0].station = "workbench"; }))).toThrow(/station/);
+  });
+});
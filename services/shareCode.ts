@@ -0,0 +1,374 @@
+import {
+  BIOME_LIMITS, BiomeConfig, BiomeMusic, BlockSpawn, BlockType, CustomBlock, DEFAULT_BIOME, MUSIC_SCALES, MobKind, Recipe,
+  RecipeItem, Stratum, WAVEFORMS,
+} from "../types";
+import { CUSTOM_BLOCK_START, MAX_CUSTOM_BLOCKS, blockFromKey, blockKey } from "./blocks";
+import { Chunk } from "./chunkStore";
+import { randomSeed } from "./random";
+import { SAVE_VERSION, SavedChunk, SavedGame, serializeChunks, serializeInventory } from "./saveStore";
+import { createStartingInventory } from "./inventory";
+import { createSpawnPlayer } from "./worldGenerator";
+import { asArray, asObject, fieldChecker, isBoolean, isInteger, isString, oneOf, within } from "./validation";
+
+// Biomes (and optionally the player's edits to the world) are shared either as
+// a readable JSON file or as a single-line code: SHARE_PREFIX + base64url(JSON).
+const SHARE_FORMAT = "pocketcraft-biome";
+const SHARE_VERSION = 1;
+const SHARE_PREFIX = "PCW1.";
+
+export interface ShareBundle {
+  biome: BiomeConfig;
+  world?: {
+    palette: string[];
+    chunks: SavedChunk[];
+  };
+}
+
+export class ShareCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareCodeError";
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const RLE_ROW = /^\d+:\d+(,\d+:\d+)*$/;
+const SPAWNS: BlockSpawn[] = ['surface', 'underground', 'canopy', 'ore'];
+
+// Block colors are keyed by lower-case block name ("dirt", "grass", ...).
+// Numeric keys ("7") hit the enum's reverse mapping, which gives back a name.
+const colorKey = (block: BlockType) => BlockType[block].toLowerCase();
+const blockFromColorKey = (key: string): BlockType | undefined => {
+  const block: unknown = BlockType[key.toUpperCase() as keyof typeof BlockType];
+  return typeof block !== "number" || block === BlockType.AIR ? undefined : block;
+};
+
+const isHexColor = (value: unknown): value is string => isString(value) && HEX_COLOR.test(value);
+const isName = (value: unknown): value is string => isString(value) && value.trim() !== "";
+
+const validateCustomBlocks = (raw: unknown, errors: string[]): CustomBlock[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.length > MAX_CUSTOM_BLOCKS) {
+    errors.push(`at most ${MAX_CUSTOM_BLOCKS} custom blocks allowed`);
+    return [];
+  }
+  const blocks: CustomBlock[] = [];
+  asArray(raw).forEach((entry, i) => {
+    const block = asObject(entry);
+    const problems: string[] = [];
+    const check = fieldChecker(problems);
+    const id = check("id", block.id, (value): value is number => value === CUSTOM_BLOCK_START + i);
+    const name = check("name", block.name, isName);
+    const color = check("color", block.color, isHexColor);
+    const hardness = check("hardness", block.hardness, within(BIOME_LIMITS.hardness));
+    const solid = check("solid", block.solid, isBoolean);
+    const spawn = check("spawn", block.spawn, oneOf(SPAWNS));
+    if (problems.length) errors.push(`custom block ${i + 1} has bad ${problems.join("/")}`);
+    else blocks.push({ id, name: name.trim(), color, hardness, solid, spawn });
+  });
+  return blocks;
+};
+
+const validateMobs = (raw: unknown, errors: string[]): MobKind[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.length > BIOME_LIMITS.mobs) {
+    errors.push(`at most ${BIOME_LIMITS.mobs} mobs allowed`);
+    return [];
+  }
+  const mobs: MobKind[] = [];
+  asArray(raw).forEach((entry, i) => {
+    const mob = asObject(entry);
+    const problems: string[] = [];
+    const check = fieldChecker(problems);
+    const name = check("name", mob.name, isName);
+    const color = check("color", mob.color, isHexColor);
+    const size = check("size", mob.size, within(BIOME_LIMITS.mobSize));
+    const speed = check("speed", mob.speed, within(BIOME_LIMITS.mobSpeed));
+    const hostile = check("hostile", mob.hostile, isBoolean);
+    if (problems.length) errors.push(`mob ${i + 1} has bad ${problems.join("/")}`);
+    else mobs.push({ name: name.trim(), color, size, speed, hostile });
+  });
+  return mobs;
+};
+
+const validateMusic = (raw: unknown, errors: string[]): BiomeMusic | undefined => {
+  if (raw === undefined) return undefined;
+  const music = asObject(raw);
+  const problems: string[] = [];
+  const check = fieldChecker(problems);
+  const isRootNote = within(BIOME_LIMITS.rootNote);
+  const valid: BiomeMusic = {
+    scale: check("scale", music.scale, oneOf(MUSIC_SCALES)),
+    tempo: check("tempo", music.tempo, within(BIOME_LIMITS.tempo)),
+    rootNote: check("rootNote", music.rootNote, (value): value is number => isInteger(value) && isRootNote(value)),
+    lead: check("lead", music.lead, oneOf(WAVEFORMS)),
+    bass: check("bass", music.bass, oneOf(WAVEFORMS)),
+    drums: check("drums", music.drums, within(BIOME_LIMITS.drums)),
+  };
+  if (problems.length) {
+    errors.push(`music has bad ${problems.join("/")}`);
+    return undefined;
+  }
+  return valid;
+};
+
+// Recipe blocks are stored by name like strata
+interface RecipeFileItem {
+  block: string;
+  count: number;
+}
+
+const validateRecipes = (raw: unknown, isKnownBlock: (key: unknown) => key is string, errors: string[]): Recipe[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.length > BIOME_LIMITS.recipes) {
+    errors.push(`at most ${BIOME_LIMITS.recipes} recipes allowed`);
+    return [];
+  }
+  const isCount = within(BIOME_LIMITS.recipeCount);
+  const isItem = (value: unknown): value is RecipeFileItem => {
+    const { block, count } = asObject(value);
+    return isKnownBlock(block) && block !== BlockType[BlockType.AIR] && isInteger(count) && isCount(count);
+  };
+  const isInputs = (value: unknown): value is RecipeFileItem[] =>
+    Array.isArray(value) && value.length > 0 && value.length <= BIOME_LIMITS.recipeInputs && value.every(isItem);
+  const toItem = ({ block, count }: RecipeFileItem): RecipeItem => ({ block: blockFromKey(block), count });
+
+  const recipes: Recipe[] = [];
+  asArray(raw).forEach((entry, i) => {
+    const recipe = asObject(entry);
+    const problems: string[] = [];
+    const check = fieldChecker(problems);
+    const output = check("output", recipe.output, isItem);
+    const inputs = check("inputs", recipe.inputs, isInputs);
+    const station = recipe.station === undefined ? undefined : check("station", recipe.station, isKnownBlock);
+    if (problems.length) {
+      errors.push(`recipe ${i + 1} has bad ${problems.join("/")}`);
+    } else {
+      recipes.push({
+        output: toItem(output),
+        inputs: inputs.map(toItem),
+        ...(station !== undefined && { station: blockFromKey(station) }),
+      });
+    }
+  });
+  return recipes;
+};
+
+const recipeToFile = (recipe: Recipe): { output: RecipeFileItem; inputs: RecipeFileItem[]; station?: string } => ({
+  output: { block: blockKey(recipe.output.block), count: recipe.output.count },
+  inputs: recipe.inputs.map(input => ({ block: blockKey(input.block), count: input.count })),
+  ...(recipe.station !== undefined && { station: blockKey(recipe.station) }),
+});
+
+const toFile = (bundle: ShareBundle) => {
+  const { biome } = bundle;
+  const blockColors: Record<string, string> = {};
+  for (const [block, color] of Object.entries(biome.blockColors)) {
+    if (color) blockColors[colorKey(Number(block))] = color;
+  }
+  return {
+    format: SHARE_FORMAT,
+    version: SHARE_VERSION,
+    biome: {
+      name: biome.name,
+      skyColor: biome.skyColor,
+      blockColors,
+      gravity: biome.gravity,
+      terrainRoughness: biome.terrainRoughness,
+      treeDensity: biome.treeDensity,
+      caveDensity: biome.caveDensity,
+      oreFrequency: biome.oreFrequency,
+      waterLevel: biome.waterLevel,
+      dayLength: biome.dayLength,
+      ambientLight: biome.ambientLight,
+      strata: biome.strata.map(layer => ({ block: blockKey(layer.block), thickness: layer.thickness })),
+      seed: biome.seed,
+      ...(biome.customBlocks?.length && { customBlocks: biome.customBlocks }),
+      ...(biome.mobs?.length && { mobs: biome.mobs }),
+      ...(biome.recipes?.length && { recipes: biome.recipes.map(recipeToFile) }),
+      ...(biome.music && { music: biome.music }),
+    },
+    ...(bundle.world && { world: bundle.world }),
+  };
+};
+
+// Throws a ShareCodeError listing every problem found
+export const validateBundle = (raw: unknown): ShareBundle => {
+  const errors: string[] = [];
+  const file = asObject(raw);
+  if (file.format !== SHARE_FORMAT) {
+    throw new ShareCodeError("Not a PocketCraft biome.");
+  }
+  if (typeof file.version !== "number" || file.version > SHARE_VERSION) {
+    throw new ShareCodeError("Biome was made by a newer version of PocketCraft.");
+  }
+  const data = asObject(file.biome);
+
+  const name = isName(data.name) ? data.name.trim() : undefined;
+  if (name === undefined) errors.push("missing name");
+  const skyColor = isHexColor(data.skyColor) ? data.skyColor : undefined;
+  if (skyColor === undefined) errors.push(`bad sky color "${data.skyColor}"`);
+
+  const blockColors: BiomeConfig["blockColors"] = {};
+  for (const [key, color] of Object.entries(asObject(data.blockColors))) {
+    const block = blockFromColorKey(key);
+    if (block === undefined) {
+      errors.push(`unknown block "${key}"`);
+    } else if (!isHexColor(color)) {
+      errors.push(`bad ${key} color "${color}"`);
+    } else {
+      blockColors[block] = color;
+    }
+  }
+
+  // Generator and lighting fields arrived after the first share format, older files get defaults
+  const ranged = {
+    gravity: data.gravity,
+    terrainRoughness: data.terrainRoughness,
+    treeDensity: data.treeDensity,
+    caveDensity: data.caveDensity ?? DEFAULT_BIOME.caveDensity,
+    oreFrequency: data.oreFrequency ?? DEFAULT_BIOME.oreFrequency,
+    waterLevel: data.waterLevel ?? DEFAULT_BIOME.waterLevel,
+    dayLength: data.dayLength ?? DEFAULT_BIOME.dayLength,
+    ambientLight: data.ambientLight ?? DEFAULT_BIOME.ambientLight,
+  };
+  const numbers = {} as Record<keyof typeof ranged, number>;
+  for (const field of Object.keys(ranged) as (keyof typeof ranged)[]) {
+    const { min, max } = BIOME_LIMITS[field];
+    const value = ranged[field];
+    if (within(BIOME_LIMITS[field])(value)) numbers[field] = value;
+    else errors.push(`${field} must be between ${min} and ${max}`);
+  }
+
+  const isSeed = (value: unknown): value is number => isInteger(value) && value >= 0 && value <= 0xFFFFFFFF;
+  const givenSeed = data.seed ?? randomSeed();
+  const seed = isSeed(givenSeed) ? givenSeed : undefined;
+  if (seed === undefined) errors.push("bad seed");
+
+  const customBlocks = validateCustomBlocks(data.customBlocks, errors);
+  const mobs = validateMobs(data.mobs, errors);
+  const customKeys = customBlocks.map(block => blockKey(block.id));
+  // Names must match what blockFromKey decodes exactly, or "stone" would pass and load as air
+  const isKnownBlock = (key: unknown): key is string =>
+    isString(key) && (customKeys.includes(key) || (blockFromKey(key) < CUSTOM_BLOCK_START && blockKey(blockFromKey(key)) === key));
+  const recipes = validateRecipes(data.recipes, isKnownBlock, errors);
+  const music = validateMusic(data.music, errors);
+
+  let strata: Stratum[] = DEFAULT_BIOME.strata;
+  if (data.strata !== undefined) {
+    const { min, max } = BIOME_LIMITS.stratumThickness;
+    if (!Array.isArray(data.strata) || data.strata.length > BIOME_LIMITS.strata) {
+      errors.push(`at most ${BIOME_LIMITS.strata} strata allowed`);
+    } else {
+      strata = [];
+      for (const layer of asArray(data.strata)) {
+        const { block, thickness } = asObject(layer);
+        const knownBlock = isKnownBlock(block) && block !== BlockType[BlockType.AIR];
+        const validThickness = isInteger(thickness) && thickness >= min && thickness <= max;
+        if (!knownBlock) errors.push(`unknown stratum block "${block}"`);
+        if (!validThickness) errors.push(`stratum thickness must be between ${min} and ${max}`);
+        if (knownBlock && validThickness) strata.push({ block: blockFromKey(block), thickness });
+      }
+    }
+  }
+
+  let world: ShareBundle["world"];
+  if (file.world) {
+    const { palette, chunks } = asObject(file.world);
+    if (!Array.isArray(palette) || !Array.isArray(chunks)) {
+      errors.push("malformed world");
+    } else {
+      const names: string[] = [];
+      for (const name of asArray(palette)) {
+        if (isKnownBlock(name)) names.push(name);
+        else errors.push(`unknown block "${name}" in world`);
+      }
+      const isRows = (rows: unknown): rows is string[] =>
+        Array.isArray(rows) && rows.every((row: unknown) => isString(row) && RLE_ROW.test(row));
+      const savedChunks: SavedChunk[] = [];
+      for (const chunk of asArray(chunks)) {
+        const { index, rows, levels } = asObject(chunk);
+        if (isInteger(index) && isRows(rows) && (levels === undefined || isRows(levels))) {
+          savedChunks.push({ index, rows, ...(isRows(levels) && { levels }) });
+        }
+      }
+      if (savedChunks.length < chunks.length) errors.push("malformed world chunks");
+      world = { palette: names, chunks: savedChunks };
+    }
+  }
+
+  if (errors.length) throw new ShareCodeError(`Invalid biome: ${errors.join(", ")}.`);
+
+  return {
+    biome: {
+      name,
+      skyColor,
+      blockColors,
+      ...numbers,
+      strata,
+      seed,
+      ...(customBlocks.length && { customBlocks }),
+      ...(mobs.length && { mobs }),
+      ...(recipes.length && { recipes }),
+      ...(music && { music }),
+    },
+    world,
+  };
+};
+
+export const createBundle = (biome: BiomeConfig, editedChunks?: Chunk[]): ShareBundle => ({
+  biome,
+  world: editedChunks?.length ? serializeChunks(editedChunks) : undefined,
+});
+
+export const exportJson = (bundle: ShareBundle): string => JSON.stringify(toFile(bundle), null, 2);
+
+export const importJson = (json: string): ShareBundle => {
+  try {
+    return validateBundle(JSON.parse(json));
+  } catch (error) {
+    if (error instanceof ShareCodeError) throw error;
+    throw new ShareCodeError("File is not valid JSON.");
+  }
+};
+
+const toBase64Url = (text: string) => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (code: string) => {
+  const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const isShareCode = (text: string) => text.trim().startsWith(SHARE_PREFIX);
+
+export const encodeShareCode = (bundle: ShareBundle): string =>
+  SHARE_PREFIX + toBase64Url(JSON.stringify(toFile(bundle)));
+
+export const decodeShareCode = (code: string): ShareBundle => {
+  let json: string;
+  try {
+    json = fromBase64Url(code.trim().slice(SHARE_PREFIX.length));
+  } catch {
+    throw new ShareCodeError("Share code is corrupted.");
+  }
+  return importJson(json);
+};
+
+// A bundle carrying world edits loads like a fresh save with the player at spawn
+export const bundleToSave = (bundle: ShareBundle): SavedGame | null => {
+  if (!bundle.world) return null;
+  return {
+    version: SAVE_VERSION,
+    name: bundle.biome.name,
+    savedAt: Date.now(),
+    biome: bundle.biome,
+    player: createSpawnPlayer(),
+    inventory: serializeInventory(createStartingInventory()),
+    palette: bundle.world.palette,
+    chunks: bundle.world.chunks,
+  };
+};
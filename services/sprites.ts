@@ -0,0 +1,137 @@
+import { PlayerState } from "../types";
+
+// Animated player sprite. Frames are painted once from a few body parts into
+// a sheet (right-facing row, mirrored left-facing row) and picked each frame
+// from what the player is doing.
+
+export type PlayerPose = "idle" | "walk" | "jump" | "mine";
+
+export const SPRITE_WIDTH = 12;
+export const SPRITE_HEIGHT = 26;
+
+const POSE_FRAMES: Record<PlayerPose, number> = { idle: 1, walk: 4, jump: 1, mine: 2 };
+const POSES = Object.keys(POSE_FRAMES) as PlayerPose[];
+
+const WALK_STRIDE = 5; // World pixels walked per walk frame
+const MINE_FRAME_MS = 150;
+
+const HAIR = "#4A2C12";
+const SKIN = "#FFCCAA";
+const PANTS = "#2E4A9E";
+const BOOTS = "#3B2A1A";
+const SHADOW = "rgba(0,0,0,0.3)"; // Darkens the far leg and the sleeve
+
+export interface SpriteSheet {
+  canvas: HTMLCanvasElement;
+  columns: Record<PlayerPose, number>; // First frame of each pose
+}
+
+interface Limbs {
+  backLeg: number; // Left edge of each leg
+  frontLeg: number;
+  lift?: number; // Rows the front foot is raised
+  arm: [number, number, number, number]; // Sleeve rect, the hand goes below (or beside) it
+  reach?: boolean; // Arm points forward, hand at the end instead of below
+}
+
+// Facing right; x grows forward. Walk cycles legs apart / together / apart.
+const POSE_LIMBS: Record<PlayerPose, Limbs[]> = {
+  idle: [{ backLeg: 3, frontLeg: 6, arm: [5, 10, 2, 6] }],
+  walk: [
+    { backLeg: 2, frontLeg: 7, arm: [4, 10, 2, 6] },
+    { backLeg: 4, frontLeg: 5, arm: [5, 10, 2, 6] },
+    { backLeg: 7, frontLeg: 2, arm: [6, 10, 2, 6] },
+    { backLeg: 5, frontLeg: 4, arm: [5, 10, 2, 6] },
+  ],
+  jump: [{ backLeg: 3, frontLeg: 6, lift: 2, arm: [8, 6, 2, 4] }],
+  mine: [
+    { backLeg: 3, frontLeg: 6, arm: [8, 6, 2, 4] },
+    { backLeg: 3, frontLeg: 6, arm: [7, 10, 4, 2], reach: true },
+  ],
+};
+
+// Paints one frame at the origin; the caller positions (and mirrors) it
+const paintFrame = (ctx: CanvasRenderingContext2D, shirt: string, limbs: Limbs) => {
+  const rect = (color: string, left: number, top: number, width: number, height: number) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(left, top, width, height);
+  };
+  const leg = (left: number, lift: number, far: boolean) => {
+    rect(PANTS, left, 17, 3, 7 - lift);
+    rect(BOOTS, left, 24 - lift, 3, 2);
+    if (far) rect(SHADOW, left, 17, 3, 9 - lift);
+  };
+
+  leg(limbs.backLeg, 0, true);
+  rect(shirt, 3, 9, 6, 8);
+  leg(limbs.frontLeg, limbs.lift ?? 0, false);
+
+  // Head: hair on top and at the back, eye at the front
+  rect(SKIN, 3, 3, 6, 6);
+  rect(HAIR, 3, 0, 6, 3);
+  rect(HAIR, 3, 3, 1, 2);
+  rect("#000000", 7, 5, 1, 1);
+
+  const [left, top, width, height] = limbs.arm;
+  rect(shirt, left, top, width, height);
+  rect(SHADOW, left, top, width, height);
+  if (limbs.reach) {
+    rect(SKIN, left + width, top, 1, height);
+  } else if (top < 9) {
+    rect(SKIN, left, top - 1, width, 1); // Raised, hand on top
+  } else {
+    rect(SKIN, left, top + height, width, 1);
+  }
+};
+
+export const createPlayerSprites = (shirt = "#FF0000"): SpriteSheet => {
+  const columns = {} as Record<PlayerPose, number>;
+  let count = 0;
+  for (const pose of POSES) {
+    columns[pose] = count;
+    count += POSE_FRAMES[pose];
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = count * SPRITE_WIDTH;
+  canvas.height = SPRITE_HEIGHT * 2;
+  const ctx = canvas.getContext("2d")!;
+  // Top row faces right, the bottom row is the same frames mirrored
+  for (const pose of POSES) {
+    POSE_LIMBS[pose].forEach((limbs, frame) => {
+      const left = (columns[pose] + frame) * SPRITE_WIDTH;
+      ctx.setTransform(1, 0, 0, 1, left, 0);
+      paintFrame(ctx, shirt, limbs);
+      ctx.setTransform(-1, 0, 0, 1, left + SPRITE_WIDTH, SPRITE_HEIGHT);
+      paintFrame(ctx, shirt, limbs);
+    });
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return { canvas, columns };
+};
+
+// Which pose and frame to show. Walking is tied to distance covered so feet
+// don't slide; mining swings on a timer while the button is held.
+export const playerFrame = (
+  player: PlayerState, onGround: boolean, mining: boolean, time: number,
+): { pose: PlayerPose; frame: number } => {
+  if (mining) return { pose: "mine", frame: Math.floor(time / MINE_FRAME_MS) % POSE_FRAMES.mine };
+  if (!onGround) return { pose: "jump", frame: 0 };
+  if (Math.abs(player.vx) > 0.1) {
+    return { pose: "walk", frame: Math.floor(Math.abs(player.x) / WALK_STRIDE) % POSE_FRAMES.walk };
+  }
+  return { pose: "idle", frame: 0 };
+};
+
+// Draws the sprite standing on (player.x, player.y), in world pixels
+export const drawPlayer = (
+  ctx: CanvasRenderingContext2D, sheet: SpriteSheet, player: PlayerState, pose: PlayerPose, frame: number,
+) => {
+  const column = sheet.columns[pose] + frame;
+  const row = player.facingRight ? 0 : 1;
+  ctx.drawImage(
+    sheet.canvas,
+    column * SPRITE_WIDTH, row * SPRITE_HEIGHT, SPRITE_WIDTH, SPRITE_HEIGHT,
+    Math.round(player.x - SPRITE_WIDTH / 2), Math.round(player.y - SPRITE_HEIGHT), SPRITE_WIDTH, SPRITE_HEIGHT,
+  );
+};
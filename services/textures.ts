@@ -0,0 +1,201 @@
+import { BiomeConfig, BlockType, CustomBlock } from "../types";
+import { blockColor } from "./blocks";
+import { createRng, deriveSeed } from "./random";
+import { TILE_SIZE } from "./worldGenerator";
+
+// Pixel-art block textures painted from the biome's palette. Each block gets
+// a small pattern (grain, cracks, mortar...) in shades of its own color, so
+// any colors the AI picks still read as the right material. Every block has
+// a few variants so large areas don't tile visibly. Textures are seeded from
+// the biome seed, block type and variant, so a world always looks the same.
+
+export const TEXTURE_VARIANTS = 4;
+
+type Rgb = [number, number, number];
+
+// RGBA pixels of one tile, row by row
+export type Texture = Uint8ClampedArray;
+
+const parseHex = (color: string): Rgb => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return [255, 0, 255]; // Loud magenta for anything unparseable
+  const value = parseInt(match[1], 16);
+  return [value >> 16, (value >> 8) & 255, value & 255];
+};
+
+// Positive amounts lighten towards white, negative darken towards black
+const shade = ([r, g, b]: Rgb, amount: number): Rgb =>
+  amount >= 0
+    ? [r + (255 - r) * amount, g + (255 - g) * amount, b + (255 - b) * amount]
+    : [r * (1 + amount), g * (1 + amount), b * (1 + amount)];
+
+class Painter {
+  readonly pixels: Texture = new Uint8ClampedArray(TILE_SIZE * TILE_SIZE * 4);
+
+  constructor(readonly rng: () => number) {}
+
+  set(x: number, y: number, [r, g, b]: Rgb) {
+    if (x < 0 || y < 0 || x >= TILE_SIZE || y >= TILE_SIZE) return;
+    const i = (y * TILE_SIZE + x) * 4;
+    this.pixels[i] = r;
+    this.pixels[i + 1] = g;
+    this.pixels[i + 2] = b;
+    this.pixels[i + 3] = 255;
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: Rgb) {
+    for (let py = y; py < y + height; py++) {
+      for (let px = x; px < x + width; px++) this.set(px, py, color);
+    }
+  }
+
+  // Base color with a sprinkle of lighter and darker pixels
+  speckle(base: Rgb, amount: number) {
+    for (let y = 0; y < TILE_SIZE; y++) {
+      for (let x = 0; x < TILE_SIZE; x++) {
+        const roll = this.rng();
+        this.set(x, y, roll < amount / 2 ? shade(base, -0.2) : roll < amount ? shade(base, 0.15) : base);
+      }
+    }
+  }
+
+  // The dark bottom/right rim that keeps neighbouring tiles apart
+  edge() {
+    for (let i = 0; i < TILE_SIZE; i++) {
+      for (const [x, y] of [[i, TILE_SIZE - 1], [TILE_SIZE - 1, i]]) {
+        const p = (y * TILE_SIZE + x) * 4;
+        if (this.pixels[p + 3] === 0) continue;
+        this.pixels[p] *= 0.8;
+        this.pixels[p + 1] *= 0.8;
+        this.pixels[p + 2] *= 0.8;
+      }
+    }
+  }
+}
+
+const paintStone = (paint: Painter, base: Rgb) => {
+  paint.speckle(base, 0.25);
+  // A few short dark cracks
+  for (let crack = 0; crack < 3; crack++) {
+    let x = Math.floor(paint.rng() * TILE_SIZE);
+    let y = Math.floor(paint.rng() * TILE_SIZE);
+    for (let step = 0; step < 4; step++) {
+      paint.set(x, y, shade(base, -0.35));
+      x += paint.rng() < 0.5 ? 1 : 0;
+      y += 1;
+    }
+  }
+};
+
+// Turf with a ragged lower edge over a soil texture
+const paintTurf = (paint: Painter, base: Rgb, soil: Rgb) => {
+  paint.speckle(soil, 0.3);
+  for (let x = 0; x < TILE_SIZE; x++) {
+    const depth = 3 + Math.floor(paint.rng() * 3);
+    for (let y = 0; y < depth; y++) paint.set(x, y, paint.rng() < 0.2 ? shade(base, 0.2) : base);
+  }
+};
+
+// Clumps of darker and lighter leaves with gaps the sky shows through
+const paintFoliage = (paint: Painter, base: Rgb) => {
+  for (let y = 0; y < TILE_SIZE; y++) {
+    for (let x = 0; x < TILE_SIZE; x++) {
+      const roll = paint.rng();
+      if (roll < 0.08) continue;
+      paint.set(x, y, roll < 0.35 ? shade(base, -0.25) : roll < 0.5 ? shade(base, 0.2) : base);
+    }
+  }
+};
+
+// Glinting nuggets set into stone
+const paintVein = (paint: Painter, base: Rgb, rock: Rgb) => {
+  paintStone(paint, rock);
+  for (let nugget = 0; nugget < 5; nugget++) {
+    const x = 1 + Math.floor(paint.rng() * (TILE_SIZE - 3));
+    const y = 1 + Math.floor(paint.rng() * (TILE_SIZE - 3));
+    paint.rect(x, y, 2, 2, base);
+    paint.set(x, y, shade(base, 0.5));
+  }
+};
+
+type Colors = BiomeConfig["blockColors"];
+const colorOf = (block: BlockType, colors: Colors) => parseHex(blockColor(block, colors));
+
+const painters: Partial<Record<BlockType, (paint: Painter, base: Rgb, colors: Colors) => void>> = {
+  [BlockType.GRASS]: (paint, base, colors) => paintTurf(paint, base, colorOf(BlockType.DIRT, colors)),
+  [BlockType.STONE]: paintStone,
+  [BlockType.BEDROCK]: (paint, base) => paint.speckle(base, 0.6),
+  [BlockType.WOOD]: (paint, base) => {
+    paint.speckle(base, 0.15);
+    // Vertical bark grain
+    for (let x = 1; x < TILE_SIZE; x += 4) {
+      for (let y = 0; y < TILE_SIZE; y++) {
+        if (paint.rng() < 0.85) paint.set(x + (paint.rng() < 0.2 ? 1 : 0), y, shade(base, -0.3));
+      }
+    }
+  },
+  [BlockType.LEAVES]: paintFoliage,
+  [BlockType.ORE]: (paint, base, colors) => paintVein(paint, base, colorOf(BlockType.STONE, colors)),
+  [BlockType.PLANKS]: (paint, base) => {
+    paint.speckle(base, 0.1);
+    // Four boards with staggered joints
+    for (let board = 0; board < 4; board++) {
+      paint.rect(0, board * 4 + 3, TILE_SIZE, 1, shade(base, -0.3));
+      const joint = board % 2 ? 4 : 11;
+      paint.rect(joint, board * 4, 1, 3, shade(base, -0.3));
+    }
+  },
+  [BlockType.BRICKS]: (paint, base) => {
+    const mortar = shade(base, 0.35);
+    paint.speckle(base, 0.2);
+    for (let row = 0; row < 4; row++) {
+      paint.rect(0, row * 4 + 3, TILE_SIZE, 1, mortar);
+      const offset = row % 2 ? 0 : 4;
+      paint.rect(offset, row * 4, 1, 3, mortar);
+      paint.rect(offset + 8, row * 4, 1, 3, mortar);
+    }
+  },
+  [BlockType.WORKBENCH]: (paint, base) => {
+    paint.speckle(base, 0.15);
+    // Tabletop with a tool grid, legs below
+    paint.rect(0, 0, TILE_SIZE, 4, shade(base, -0.35));
+    for (let x = 2; x < TILE_SIZE; x += 4) paint.rect(x, 1, 2, 2, shade(base, 0.3));
+    paint.rect(2, 5, 2, 11, shade(base, -0.2));
+    paint.rect(12, 5, 2, 11, shade(base, -0.2));
+  },
+  [BlockType.STICK]: (paint, base) => {
+    // Diagonal stick, only ever seen as an inventory icon
+    for (let i = 0; i < 12; i++) paint.rect(2 + i, 13 - i, 2, 1, i % 4 ? base : shade(base, -0.3));
+  },
+  [BlockType.TORCH]: (paint, base) => {
+    // Stick with a flame on top, the rest of the tile left transparent
+    paint.rect(7, 7, 2, 9, parseHex("#6B4423"));
+    paint.rect(6, 3, 4, 4, base);
+    paint.rect(7, 4, 2, 2, shade(base, 0.6));
+  },
+};
+
+// Custom blocks look like the built-in block they stand in for
+const customPainters: Record<CustomBlock["spawn"], (paint: Painter, base: Rgb, colors: Colors) => void> = {
+  surface: (paint, base, colors) => paintTurf(paint, base, colorOf(BlockType.DIRT, colors)),
+  underground: paintStone,
+  canopy: paintFoliage,
+  ore: (paint, base, colors) => paintVein(paint, base, colorOf(BlockType.STONE, colors)),
+};
+
+// Textures without a dark rim: see-through or free-standing blocks
+const NO_EDGE = new Set<number>([BlockType.LEAVES, BlockType.STICK, BlockType.TORCH]);
+
+export const paintTexture = (block: number, biome: BiomeConfig, variant = 0): Texture => {
+  const paint = new Painter(createRng(deriveSeed(biome.seed, `texture:${block}:${variant}`)));
+  const custom = biome.customBlocks?.find(other => other.id === block);
+  const painter = custom ? customPainters[custom.spawn] : painters[block as BlockType];
+  const base = parseHex(custom?.color ?? blockColor(block, biome.blockColors));
+  if (painter) {
+    painter(paint, base, biome.blockColors);
+  } else {
+    paint.speckle(base, 0.3); // Dirt, and custom blocks with an unknown spawn
+  }
+  if (!NO_EDGE.has(block) && custom?.spawn !== "canopy") paint.edge();
+  return paint.pixels;
+};
@@ -0,0 +1,146 @@
+import { BiomeConfig, BlockType } from "../types";
+import { MAX_FLUID_LEVEL, blockColor, hasTile, isFluid } from "./blocks";
+import { Chunk } from "./chunkStore";
+import { brightness } from "./lighting";
+import { deriveSeed, hash2D } from "./random";
+import { TEXTURE_VARIANTS, paintTexture } from "./textures";
+import { CHUNK_HEIGHT, CHUNK_WIDTH, TILE_SIZE } from "./worldGenerator";
+
+// Blocks are drawn from a per-biome atlas of pre-painted tiles, and whole
+// chunks are baked into offscreen canvases so a frame costs a couple of
+// drawImage calls instead of one fillRect per tile. Fluids and light are
+// baked the same way into a second canvas per chunk, drawn over the players.
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Every block type's textures in one grid: a column per block, a row per variant
+export interface TileAtlas {
+  canvas: HTMLCanvasElement;
+  columns: Map<number, number>; // Block type => tile column in the grid
+  seed: number; // Picks which variant each world tile shows
+}
+
+export const createTileAtlas = (biome: BiomeConfig): TileAtlas => {
+  const builtIn = Object.values(BlockType).filter((value): value is number => typeof value === "number");
+  const blocks = [...builtIn, ...(biome.customBlocks ?? []).map(block => block.id)].filter(hasTile);
+
+  const canvas = createCanvas(blocks.length * TILE_SIZE, TEXTURE_VARIANTS * TILE_SIZE);
+  const ctx = canvas.getContext("2d")!;
+  const columns = new Map<number, number>();
+  blocks.forEach((block, column) => {
+    for (let variant = 0; variant < TEXTURE_VARIANTS; variant++) {
+      const pixels = paintTexture(block, biome, variant);
+      ctx.putImageData(new ImageData(pixels, TILE_SIZE, TILE_SIZE), column * TILE_SIZE, variant * TILE_SIZE);
+    }
+    columns.set(block, column);
+  });
+  return { canvas, columns, seed: deriveSeed(biome.seed, "variants") };
+};
+
+// Draws one block's tile with its top-left corner at (x, y). The variant is
+// picked from the world position so the same spot always looks the same.
+const drawTile = (
+  ctx: CanvasRenderingContext2D, atlas: TileAtlas, block: number, worldX: number, worldY: number, x: number, y: number,
+) => {
+  const column = atlas.columns.get(block);
+  if (column === undefined) return;
+  const variant = Math.floor(hash2D(atlas.seed, worldX, worldY) * TEXTURE_VARIANTS);
+  ctx.drawImage(atlas.canvas, column * TILE_SIZE, variant * TILE_SIZE, TILE_SIZE, TILE_SIZE, x, y, TILE_SIZE, TILE_SIZE);
+};
+
+interface BakedChunk {
+  canvas: HTMLCanvasElement;
+  revision: number;
+}
+
+// Chunk canvases are keyed by the chunk object itself, so chunks the store
+// unloads (or replaces when a save is restored) are simply forgotten
+export class ChunkCanvasCache {
+  private baked = new WeakMap<Chunk, BakedChunk>();
+  rebuilds = 0; // Chunks baked since creation, for the debug overlay
+
+  constructor(private atlas: TileAtlas) {}
+
+  // The chunk's blocks as a CHUNK_WIDTH x CHUNK_HEIGHT tile canvas, rebaked
+  // only when a block in it has changed since last time
+  get(chunk: Chunk): HTMLCanvasElement {
+    let baked = this.baked.get(chunk);
+    if (baked && baked.revision === chunk.revision) return baked.canvas;
+
+    const canvas = baked?.canvas ?? createCanvas(CHUNK_WIDTH * TILE_SIZE, CHUNK_HEIGHT * TILE_SIZE);
+    const ctx = canvas.getContext("2d")!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+      for (let x = 0; x < CHUNK_WIDTH; x++) {
+        drawTile(ctx, this.atlas, chunk.blocks[y][x], chunk.index * CHUNK_WIDTH + x, y, x * TILE_SIZE, y * TILE_SIZE);
+      }
+    }
+    baked = { canvas, revision: chunk.revision };
+    this.baked.set(chunk, baked);
+    this.rebuilds++;
+    return canvas;
+  }
+}
+
+// Daylight is rounded to this many steps, so the shade is only redrawn a
+// few times over each dawn and dusk
+const DAYLIGHT_STEPS = 16;
+
+interface BakedShade {
+  canvas: HTMLCanvasElement;
+  revision: number;
+  sun: number;
+}
+
+// A chunk's fluids and darkness on a transparent canvas the size of its
+// tiles, redrawn when a fluid or the light in it changes or the daylight
+// moves on a step
+export class ChunkShadeCache {
+  private baked = new WeakMap<Chunk, BakedShade>();
+  rebuilds = 0;
+
+  constructor(private biome: BiomeConfig) {}
+
+  get(chunk: Chunk, daylight: number): HTMLCanvasElement {
+    const sun = Math.round(daylight * DAYLIGHT_STEPS) / DAYLIGHT_STEPS;
+    let baked = this.baked.get(chunk);
+    if (baked && baked.revision === chunk.shadeRevision && baked.sun === sun) return baked.canvas;
+
+    const canvas = baked?.canvas ?? createCanvas(CHUNK_WIDTH * TILE_SIZE, CHUNK_HEIGHT * TILE_SIZE);
+    const ctx = canvas.getContext("2d")!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Partly filled tiles are drawn from the bottom up, unless fluid is pouring in from above
+    ctx.globalAlpha = 0.75;
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+      for (let x = 0; x < CHUNK_WIDTH; x++) {
+        const block = chunk.blocks[y][x];
+        if (!isFluid(block)) continue;
+        const full = y > 0 && chunk.blocks[y - 1][x] === block;
+        const height = full ? TILE_SIZE : Math.ceil(TILE_SIZE * chunk.levels[y][x] / MAX_FLUID_LEVEL);
+        ctx.fillStyle = blockColor(block, this.biome.blockColors);
+        ctx.fillRect(x * TILE_SIZE, (y + 1) * TILE_SIZE - height, TILE_SIZE, height);
+      }
+    }
+    ctx.globalAlpha = 1;
+
+    // Darken everything (sky included) by the light reaching each tile
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+      for (let x = 0; x < CHUNK_WIDTH; x++) {
+        const light = brightness(chunk.skyLight[y][x], chunk.blockLight[y][x], sun, this.biome.ambientLight);
+        if (light >= 1) continue;
+        ctx.fillStyle = `rgba(5,8,30,${1 - light})`;
+        ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+      }
+    }
+    baked = { canvas, revision: chunk.shadeRevision, sun };
+    this.baked.set(chunk, baked);
+    this.rebuilds++;
+    return canvas;
+  }
+}
@@ -0,0 +1,37 @@
+// Checks for JSON from outside the game (share files, saves, model answers and
+// network messages). Everything arrives as unknown and is narrowed field by
+// field before the game relies on its shape.
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Anything that isn't an object reads as one with every field missing
+export const asObject = (value: unknown): JsonObject => (isObject(value) ? value : {});
+
+// Arrays come back as unknown[] rather than the any[] Array.isArray gives
+export const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+export const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+export const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+export const isString = (value: unknown): value is string => typeof value === "string";
+
+export const within = ({ min, max }: { min: number; max: number }) =>
+  (value: unknown): value is number => typeof value === "number" && value >= min && value <= max;
+
+export const oneOf = <T>(options: readonly T[]) =>
+  (value: unknown): value is T => (options as readonly unknown[]).includes(value);
+
+// Each call hands back the value if it passes, or notes the field in
+// `problems` and hands back undefined
+export const fieldChecker = (problems: string[]) =>
+  <T>(field: string, value: unknown, valid: (value: unknown) => value is T): T | undefined => {
+    if (valid(value)) return value;
+    problems.push(field);
+    return undefined;
+  };
@@ -0,0 +1,225 @@
+import { BiomeConfig, BlockSpawn, BlockType, DEFAULT_BIOME, PlayerState } from "../types";
+import { deriveSeed, fractalNoise1D, fractalNoise2D, hash2D } from "./random";
+
+export const TILE_SIZE = 16;
+export const CHUNK_WIDTH = 32;
+export const CHUNK_HEIGHT = 48;
+
+export const MAX_HEALTH = 20;
+export const MAX_HUNGER = 20;
+
+// Player dropped in at the world origin, falls down to the surface
+export const createSpawnPlayer = (): PlayerState => ({
+  x: TILE_SIZE * 0.5,
+  y: 0,
+  vx: 0,
+  vy: 0,
+  facingRight: true,
+  selectedBlock: BlockType.DIRT,
+  health: MAX_HEALTH,
+  hunger: MAX_HUNGER,
+});
+
+// Surface height (row of the grass block) for a world column.
+// Roughness drives both the amplitude and the frequency of the noise so that
+// 0.0 is rolling plains and 1.0 is jagged hills. Height only depends on the
+// absolute column, so terrain is continuous across chunk boundaries.
+export const surfaceHeight = (biome: BiomeConfig, x: number): number => {
+  const { seed, terrainRoughness } = biome;
+  const amplitude = 2 + terrainRoughness * 14;
+  const frequency = 0.015 + terrainRoughness * 0.05;
+  const persistence = 0.35 + terrainRoughness * 0.3;
+  const noise = fractalNoise1D(deriveSeed(seed, "terrain"), x * frequency, 4, persistence);
+  const height = Math.floor(CHUNK_HEIGHT / 2) + Math.round(noise * amplitude);
+  return Math.max(10, Math.min(CHUNK_HEIGHT - 5, height));
+};
+
+// Ids of the biome's custom blocks that spawn in the given place
+const customBlocksFor = (biome: BiomeConfig, spawn: BlockSpawn): number[] =>
+  (biome.customBlocks ?? []).filter(block => block.spawn === spawn).map(block => block.id);
+
+// Deterministically pick one of several candidates from a hash in [0, 1)
+const pick = (ids: number[], hash: number) => ids[Math.floor(hash * ids.length)];
+
+// Custom surface blocks cover patches this many columns wide
+const SURFACE_PATCH_WIDTH = 12;
+// Caves stay this many tiles below the surface so the ground doesn't collapse
+const CAVE_ROOF = 3;
+// Cave air this close to bedrock fills with lava
+const LAVA_DEPTH = 7;
+
+// Row the water surface sits at, valleys whose ground is lower get flooded.
+// Null when the biome has no water at all.
+export const seaLevel = (biome: BiomeConfig): number | null => {
+  if (biome.waterLevel <= 0) return null;
+  return Math.floor(CHUNK_HEIGHT / 2) + 8 - Math.round(biome.waterLevel * 16);
+};
+
+const isUnderwater = (biome: BiomeConfig, x: number) => {
+  const sea = seaLevel(biome);
+  return sea !== null && surfaceHeight(biome, x) > sea;
+};
+
+// State handed from one generation pass to the next
+interface ChunkContext {
+  biome: BiomeConfig;
+  originX: number;
+  blocks: number[][]; // [y][localX]
+  heights: number[]; // Surface row per local column
+  set: (worldX: number, y: number, type: number, onlyAir?: boolean) => void;
+}
+
+type GeneratorPass = (ctx: ChunkContext) => void;
+
+// Surface block, strata, stone and the bedrock floor
+const terrainPass: GeneratorPass = ({ biome, originX, blocks, heights }) => {
+  const customSeed = deriveSeed(biome.seed, "custom");
+  const surfaceBlocks = customBlocksFor(biome, 'surface');
+  const undergroundBlocks = customBlocksFor(biome, 'underground');
+  const strata = biome.strata?.length ? biome.strata : DEFAULT_BIOME.strata;
+
+  for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+    const x = originX + lx;
+    const height = heights[lx];
+    const patch = Math.floor(x / SURFACE_PATCH_WIDTH);
+
+    // Biome-specific surface patches, plain dirt on lake beds
+    let surfaceBlock: number = BlockType.GRASS;
+    if (isUnderwater(biome, x)) {
+      surfaceBlock = BlockType.DIRT;
+    } else if (surfaceBlocks.length && hash2D(customSeed, patch, 0) < 0.5) {
+      surfaceBlock = pick(surfaceBlocks, hash2D(customSeed, patch, 1));
+    }
+
+    // Column profile top to bottom: strata, optional custom layer, then stone
+    const column: number[] = [];
+    for (const stratum of strata) {
+      for (let i = 0; i < stratum.thickness; i++) column.push(stratum.block);
+    }
+    if (undergroundBlocks.length) {
+      const layer = pick(undergroundBlocks, hash2D(customSeed, patch, 3));
+      const thickness = 2 + Math.floor(hash2D(customSeed, x, 2) * 3);
+      for (let i = 0; i < thickness; i++) column.push(layer);
+    }
+
+    for (let y = height; y < CHUNK_HEIGHT; y++) {
+      if (y === CHUNK_HEIGHT - 1) {
+        blocks[y][lx] = BlockType.BEDROCK;
+      } else if (y === height) {
+        blocks[y][lx] = surfaceBlock;
+      } else {
+        blocks[y][lx] = column[y - height - 1] ?? BlockType.STONE;
+      }
+    }
+  }
+};
+
+// Clustered ore veins: blobs of 2D noise restricted to depth bands in stone
+const orePass: GeneratorPass = ({ biome, originX, blocks, heights }) => {
+  const oreSeed = deriveSeed(biome.seed, "ore");
+  const customSeed = deriveSeed(biome.seed, "custom-ore");
+  const oreBlocks = customBlocksFor(biome, 'ore');
+  if (biome.oreFrequency <= 0) return;
+  const threshold = 0.75 - biome.oreFrequency * 0.4;
+
+  for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+    const x = originX + lx;
+    for (let y = heights[lx] + 1; y < CHUNK_HEIGHT - 1; y++) {
+      if (blocks[y][lx] !== BlockType.STONE) continue;
+      const depth = y - heights[lx];
+      // Gold-ish ore deep down, biome ores in a shallower band
+      if (depth >= 10 && fractalNoise2D(oreSeed, x * 0.3, y * 0.3, 2, 0.5) > threshold) {
+        blocks[y][lx] = BlockType.ORE;
+      } else if (oreBlocks.length && depth >= 4 && depth <= 16 &&
+        fractalNoise2D(customSeed, x * 0.3, y * 0.3, 2, 0.5) > threshold) {
+        blocks[y][lx] = pick(oreBlocks, hash2D(customSeed, Math.floor(x / 8), Math.floor(y / 8)));
+      }
+    }
+  }
+};
+
+// Winding tunnels (ridged noise) plus larger caverns (blob noise)
+const cavePass: GeneratorPass = ({ biome, originX, blocks, heights }) => {
+  const { caveDensity } = biome;
+  if (caveDensity <= 0) return;
+  const tunnelSeed = deriveSeed(biome.seed, "tunnel");
+  const cavernSeed = deriveSeed(biome.seed, "cavern");
+
+  for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+    const x = originX + lx;
+    for (let y = heights[lx] + CAVE_ROOF; y < CHUNK_HEIGHT - 1; y++) {
+      const tunnel = Math.abs(fractalNoise2D(tunnelSeed, x * 0.06, y * 0.1, 3, 0.5)) < caveDensity * 0.12;
+      const cavern = fractalNoise2D(cavernSeed, x * 0.08, y * 0.12, 2, 0.5) > 0.7 - caveDensity * 0.35;
+      if (tunnel || cavern) blocks[y][lx] = BlockType.AIR;
+    }
+  }
+};
+
+// Lakes fill valleys below sea level, lava pools in the deepest caves
+const fluidPass: GeneratorPass = ({ biome, blocks, heights }) => {
+  const sea = seaLevel(biome);
+  for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+    if (sea !== null) {
+      for (let y = sea; y < heights[lx]; y++) {
+        if (blocks[y][lx] === BlockType.AIR) blocks[y][lx] = BlockType.WATER;
+      }
+    }
+    for (let y = CHUNK_HEIGHT - LAVA_DEPTH; y < CHUNK_HEIGHT - 1; y++) {
+      if (blocks[y][lx] === BlockType.AIR) blocks[y][lx] = BlockType.LAVA;
+    }
+  }
+};
+
+// Trees - neighbouring columns are included so canopies overhanging the
+// chunk edge are drawn on both sides of the boundary.
+const treePass: GeneratorPass = ({ biome, originX, set }) => {
+  const treeSeed = deriveSeed(biome.seed, "tree");
+  const canopyBlocks = customBlocksFor(biome, 'canopy');
+
+  for (let x = originX - 1; x <= originX + CHUNK_WIDTH; x++) {
+    if (hash2D(treeSeed, x, 0) >= biome.treeDensity || isUnderwater(biome, x)) continue;
+    const height = surfaceHeight(biome, x);
+    const treeHeight = 3 + Math.floor(hash2D(treeSeed, x, 1) * 3);
+    const leaves = canopyBlocks.length && hash2D(treeSeed, x, 2) < 0.5
+      ? pick(canopyBlocks, hash2D(treeSeed, x, 3))
+      : BlockType.LEAVES;
+    for (let i = 1; i <= treeHeight; i++) {
+      set(x, height - i, BlockType.WOOD);
+    }
+    // Leaves
+    for (let lx = x - 1; lx <= x + 1; lx++) {
+      for (let ly = height - treeHeight - 1; ly <= height - treeHeight; ly++) {
+        set(lx, ly, leaves, true);
+      }
+    }
+  }
+};
+
+const PIPELINE: GeneratorPass[] = [terrainPass, orePass, cavePass, fluidPass, treePass];
+
+// Generates the blocks of one chunk as rows of local columns ([y][x]) by
+// running each generation pass in order over the same chunk.
+// Same seed + same biome + same index always produces the same chunk.
+export const generateChunk = (biome: BiomeConfig, index: number): number[][] => {
+  const originX = index * CHUNK_WIDTH;
+  const blocks: number[][] = [];
+  for (let y = 0; y < CHUNK_HEIGHT; y++) {
+    blocks[y] = new Array(CHUNK_WIDTH).fill(BlockType.AIR);
+  }
+
+  const heights: number[] = [];
+  for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+    heights[lx] = surfaceHeight(biome, originX + lx);
+  }
+
+  const set = (worldX: number, y: number, type: number, onlyAir = false) => {
+    const lx = worldX - originX;
+    if (lx < 0 || lx >= CHUNK_WIDTH || y < 0 || y >= CHUNK_HEIGHT) return;
+    if (onlyAir && blocks[y][lx] !== BlockType.AIR) return;
+    blocks[y][lx] = type;
+  };
+
+  const ctx: ChunkContext = { biome, originX, blocks, heights, set };
+  for (const pass of PIPELINE) pass(ctx);
+  return blocks;
+};
@@ -7,6 +7,69 @@ export enum BlockType {
   LEAVES = 5,
   BEDROCK = 6,
   ORE = 7,
+  WATER = 8,
+  LAVA = 9,
+  TORCH = 10,
+  PLANKS = 11,
+  STICK = 12,
+  WORKBENCH = 13,
+  BRICKS = 14,
+}
+
+// Where a biome-specific block shows up during world generation
+export type BlockSpawn = 'surface' | 'underground' | 'canopy' | 'ore';
+
+// Extra block type invented for one biome (e.g. "Candy Cane" in Candy Kingdom)
+export interface CustomBlock {
+  id: number; // CUSTOM_BLOCK_START and up, unique within the biome
+  name: string;
+  color: string;
+  hardness: number; // Mining time in seconds
+  solid: boolean;
+  spawn: BlockSpawn;
+}
+
+// One underground layer, listed top to bottom below the surface block
+export interface Stratum {
+  block: number; // BlockType or a custom block id
+  thickness: number; // In tiles
+}
+
+export interface RecipeItem {
+  block: number; // BlockType or custom block id
+  count: number;
+}
+
+export interface Recipe {
+  output: RecipeItem;
+  inputs: RecipeItem[];
+  station?: number; // Block that has to be near the player, e.g. a workbench
+}
+
+// Creature roaming a biome. Hostile mobs come out in the dark and chase the
+// player, passive ones wander in daylight and run away when hit.
+export interface MobKind {
+  name: string;
+  color: string;
+  size: number; // Height in tiles
+  speed: number; // Walking speed in pixels per step (the player walks at 2)
+  hostile: boolean;
+}
+
+export const MUSIC_SCALES = ['major', 'minor', 'pentatonic', 'blues', 'dorian', 'phrygian'] as const;
+export type MusicScale = typeof MUSIC_SCALES[number];
+
+export const WAVEFORMS = ['square', 'triangle', 'sawtooth', 'sine'] as const;
+export type Waveform = typeof WAVEFORMS[number];
+
+// Style of the biome's background music; the tune itself comes from the seed
+export interface BiomeMusic {
+  scale: MusicScale;
+  tempo: number; // Beats per minute
+  rootNote: number; // MIDI note of the key, e.g. 57 for A3
+  lead: Waveform; // Melody voice
+  bass: Waveform;
+  drums: number; // 0.0 (none) to 1.0 (busy noise-channel beat)
 }
 
 export interface BiomeConfig {
@@ -18,6 +81,17 @@ export interface BiomeConfig {
   gravity: number;
   terrainRoughness: number; // 0.0 to 1.0
   treeDensity: number; // 0.0 to 1.0
+  caveDensity: number; // 0.0 (solid) to 1.0 (swiss cheese)
+  oreFrequency: number; // 0.0 (none) to 1.0 (rich veins)
+  waterLevel: number; // 0.0 (dry) to 1.0 (flooded valleys)
+  strata: Stratum[]; // Stone fills everything below the last layer
+  dayLength: number; // Seconds for a full day/night cycle
+  ambientLight: number; // 0.0 (pitch black caves and nights) to 1.0 (no darkness)
+  seed: number; // World generation seed, same seed => same world
+  customBlocks?: CustomBlock[];
+  mobs?: MobKind[]; // Built-in mobs are used when empty
+  recipes?: Recipe[]; // Extra recipes on top of the built-in ones
+  music?: BiomeMusic; // DEFAULT_MUSIC when missing
 }
 
 export interface PlayerState {
@@ -27,17 +101,58 @@ export interface PlayerState {
   vy: number;
   facingRight: boolean;
   selectedBlock: BlockType;
+  health: number; // Half hearts, 0..MAX_HEALTH
+  hunger: number; // 0 (starving)..MAX_HUNGER (full)
 }
 
+// Block counts held by the player
+export type Inventory = Partial<Record<BlockType, number>>;
+
 export interface InputState {
   left: boolean;
   right: boolean;
   up: boolean; // Jump
   down: boolean;
-  actionA: boolean; // Mine/Place
-  actionB: boolean; // Toggle Inventory / Special
+  actionA: boolean; // Mine
+  actionB: boolean; // Place
+  cycle: boolean; // Next hotbar item
+  select: boolean; // Opens crafting
+  start: boolean; // Opens the menu
 }
 
+// Accepted range of the tunable physics/terrain values
+export const BIOME_LIMITS = {
+  gravity: { min: 0.1, max: 1.5 },
+  terrainRoughness: { min: 0, max: 1 },
+  treeDensity: { min: 0, max: 1 },
+  caveDensity: { min: 0, max: 1 },
+  oreFrequency: { min: 0, max: 1 },
+  waterLevel: { min: 0, max: 1 },
+  dayLength: { min: 60, max: 1800 },
+  ambientLight: { min: 0, max: 1 },
+  hardness: { min: 0.1, max: 5 },
+  stratumThickness: { min: 1, max: 8 },
+  strata: 4, // Max layers
+  mobSize: { min: 0.5, max: 2 },
+  mobSpeed: { min: 0.3, max: 2.5 },
+  mobs: 4, // Max mob kinds
+  recipes: 4, // Max biome recipes
+  recipeInputs: 3, // Max ingredients per recipe
+  recipeCount: { min: 1, max: 16 }, // Items made or used per ingredient
+  tempo: { min: 60, max: 200 },
+  rootNote: { min: 45, max: 64 },
+  drums: { min: 0, max: 1 },
+};
+
+export const DEFAULT_MUSIC: BiomeMusic = {
+  scale: 'pentatonic',
+  tempo: 100,
+  rootNote: 57,
+  lead: 'square',
+  bass: 'triangle',
+  drums: 0.4,
+};
+
 export const DEFAULT_BIOME: BiomeConfig = {
   name: "Overworld",
   skyColor: "#87CEEB",
@@ -49,8 +164,17 @@ export const DEFAULT_BIOME: BiomeConfig = {
     [BlockType.LEAVES]: "#228B22",
     [BlockType.BEDROCK]: "#2F2F2F",
     [BlockType.ORE]: "#FFD700",
+    [BlockType.WATER]: "#3F76E4",
+    [BlockType.LAVA]: "#FF5A00",
   },
   gravity: 0.5,
   terrainRoughness: 0.5,
   treeDensity: 0.1,
+  caveDensity: 0.4,
+  oreFrequency: 0.4,
+  waterLevel: 0.4,
+  strata: [{ block: BlockType.DIRT, thickness: 5 }],
+  dayLength: 480,
+  ambientLight: 0.1,
+  seed: 1337,
 };
\ No newline at end of file